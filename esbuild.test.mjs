@@ -0,0 +1,25 @@
+import esbuild from "esbuild";
+import process from "process";
+import { readdirSync, rmSync } from "fs";
+import { spawnSync } from "child_process";
+
+// Bundles every tests/*.test.ts on its own and runs them with the built-in node test runner.
+// Obsidian has no runtime outside the app, so imports of it get the stand-ins in tests/obsidian.ts.
+const outdir = "test-build";
+const tests = readdirSync("tests").filter((file) => file.endsWith(".test.ts"));
+
+rmSync(outdir, { recursive: true, force: true });
+await esbuild.build({
+	entryPoints: tests.map((file) => `tests/${file}`),
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node16",
+	alias: { obsidian: "./tests/obsidian.ts" },
+	logLevel: "warning",
+	outdir,
+});
+
+const result = spawnSync(process.execPath, ["--test", ...tests.map((file) => `${outdir}/${file.replace(/\.ts$/, ".js")}`)], { stdio: "inherit" });
+rmSync(outdir, { recursive: true, force: true });
+process.exit(result.status ?? 1);
@@ -1,45 +1,130 @@
-import { Editor, MarkdownView, Notice, Plugin, TFile, WorkspaceLeaf } from 'obsidian';
-import { promises as fs } from 'fs';
+import { Editor, MarkdownView, Notice, moment, Plugin, TAbstractFile, TFile, WorkspaceLeaf, debounce, getAllTags, normalizePath, parseYaml } from 'obsidian';
 import { join } from 'path';
-import { GoogleGenerativeAIEmbeddings, ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { Document } from '@langchain/core/documents';
-import { createRetrievalChain } from 'langchain/chains/retrieval';
-import { createStuffDocumentsChain } from 'langchain/chains/combine_documents';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { ChatPromptTemplate, MessagesPlaceholder } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { Runnable, RunnableLambda } from '@langchain/core/runnables';
+import { BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import { CHAT_VIEW_TYPE, GeminiRAGSettings, DEFAULT_SETTINGS, DocumentChunk } from './src/types';
+import { CHAT_VIEW_TYPE, RELATED_NOTES_VIEW_TYPE, GeminiRAGSettings, DEFAULT_SETTINGS, DocumentChunk, ChatMessage, QueryOptions, RAGResult, RAGStreamEvent } from './src/types';
 import { RAGSearchModal } from './src/rag-search-modal';
 import { ChatView } from './src/chat-view';
+import { RelatedNotesView } from './src/related-notes-view';
+import { RelatedNote, findRelatedNotes } from './src/related-notes';
 import { GeminiRAGSettingTab } from './src/settings-tab';
+import { IndexManifest, hashContent } from './src/index-manifest';
+import { CachedEmbeddings, EmbeddingCache } from './src/embedding-cache';
+import { GeminiRAGApi, createApi } from './src/api';
+import { ApiServer, generateApiToken } from './src/api-server';
+import { fromChatModel, runAgent } from './src/agent/agent';
+import { createVaultTools } from './src/agent/vault-tools';
+import { AgentResult, AgentStep } from './src/agent/types';
+import { ConfirmModal } from './src/confirm-modal';
+import { ChatModelOptions, getChatProvider, getEmbeddingProvider } from './src/providers';
+import { selectRecentHistory, toLangChainMessages } from './src/chat-history';
+import { ChunkLocation, locateChunks } from './src/chunk-locator';
+import { MarkdownChunker, extractFrontmatterMetadata, extractInlineTags, splitFrontmatter } from './src/markdown-chunker';
+import { RetrievalFilter, createMetadataFilter, mergeFilters, normalizeFolder, parseQueryFilters } from './src/query-filter';
+import { KeywordIndex } from './src/keyword-index';
+import { HybridRetriever, getRetrievalOptions, vectorId } from './src/retriever';
+import { IndexHeader, IndexInfo, IndexMismatch, IndexStore, findIndexMismatches } from './src/index-store';
+import { IndexMismatchModal } from './src/index-mismatch-modal';
+import { IndexBuilder } from './src/index-builder';
+import { IndexBuildModal } from './src/index-build-modal';
+import { isNoteExcluded, isPathIncluded } from './src/index-rules';
+import { ChatSession, ChatSessionStore } from './src/chat-sessions';
+import { formatSessionAsMarkdown, toNoteName } from './src/chat-export';
+import { formatSourceLink } from './src/citations';
+import { SELECTION_ACTIONS } from './src/selection-actions';
+import { SelectionAnswerModal } from './src/selection-answer-modal';
+import { BUILT_IN_PROMPT_MODES, PromptMode, PromptVariables, formatContext, formatHistory, parsePromptTemplateNote, renderPromptTemplate } from './src/prompt-templates';
+import { createLinkLookup } from './src/link-graph';
+import { ExtractedSection, ExtractorContext, getExtractor } from './src/extractors';
+import { parseGoldenSet } from './src/evaluation/golden-set';
+import { runEvaluation } from './src/evaluation/evaluator';
+import { EvaluationConfig, formatEvaluationReport } from './src/evaluation/report';
+import { ContextOrigin, MAX_LINKED_NOTES, NoteContextOptions, interleaveChunks, isPinnedFolder, mergeContext } from './src/note-context';
 
 export default class GeminiRAGPlugin extends Plugin {
 	settings: GeminiRAGSettings;
-	embeddings: GoogleGenerativeAIEmbeddings | null = null;
-	llm: ChatGoogleGenerativeAI | null = null;
+	embeddings: Embeddings | null = null;
+	llm: BaseChatModel | null = null;
 	vectorStore: MemoryVectorStore | null = null;
-	ragChain: any = null;
+	keywordIndex: KeywordIndex | null = null;
+	// Rewrites follow-up questions into standalone retrieval queries
+	rephraseChain: Runnable<{ input: string; chat_history: BaseMessage[] }, string> | null = null;
+	// Set when the configured chat model kept failing and a fallback model is used instead
+	fallbackModel: string | undefined;
 	statusBarItem: HTMLElement;
 	textSplitter: RecursiveCharacterTextSplitter;
-	embeddingCache: Map<string, any> = new Map(); // For compatibility
+	markdownChunker: MarkdownChunker;
+	// Vectors of chunk texts embedded before, shared by rebuilds and updates
+	embeddingCache: EmbeddingCache;
+	// Embeddings file written by earlier versions, converted to the index store on load
 	embeddingsPath: string;
+	indexStore: IndexStore;
+	indexHeader: IndexHeader | null = null;
+	indexLoading: Promise<boolean> | null = null;
+	// Differences between the settings the index was built with and the current ones
+	indexMismatches: IndexMismatch[] = [];
+	lastPromptedMismatch = '';
+	promptIndexRebuild = debounce(() => this.showIndexMismatchPrompt(), 1500, true);
+	indexManifest: IndexManifest;
+	// The last full build, kept so its failed files can be retried
+	indexBuilder: IndexBuilder | null = null;
+	isIndexing = false;
+	chatSessions: ChatSessionStore;
+	pendingChanges: Map<string, 'update' | 'delete'> = new Map();
+	schedulePendingChanges = debounce(() => this.processPendingChanges(), 2000, true);
+	// Include/exclude rules the index was last checked against
+	appliedIndexRules = '';
+	schedulePurgeExcluded = debounce(() => this.purgeExcludedFiles(), 2000, true);
+	// For other plugins and scripts, also served over HTTP when the local API is enabled
+	api: GeminiRAGApi;
+	apiServer: ApiServer;
+	// Why the local API could not be started, shown in the settings
+	apiServerError = '';
+	// Port and token of the last failed start, not retried on every settings change
+	failedApiServerConfig = '';
 
 	async onload() {
+		this.api = createApi(this);
+		this.apiServer = new ApiServer(this.api);
 		await this.loadSettings();
 		await this.forceRefreshSettings();
 
 		// Set embeddings path to plugin directory
 		this.embeddingsPath = join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'embeddings.json');
+		this.indexStore = new IndexStore(join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'index'));
+		this.indexManifest = new IndexManifest(join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'index-manifest.json'));
+		this.embeddingCache = new EmbeddingCache(join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'embedding-cache'));
+		this.chatSessions = new ChatSessionStore(join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'chat-sessions.json'));
+		await this.loadChatSessions();
 
 		// Register the chat view
 		this.registerView(
 			CHAT_VIEW_TYPE,
 			(leaf) => new ChatView(leaf, this)
 		);
+		this.registerView(
+			RELATED_NOTES_VIEW_TYPE,
+			(leaf) => new RelatedNotesView(leaf, this)
+		);
 
 		// Add status bar item
 		this.statusBarItem = this.addStatusBarItem();
-		this.initializeGemini();
+		this.statusBarItem.onClickEvent(() => {
+			if (this.indexBuilder && (this.indexBuilder.isRunning() || this.indexBuilder.getFailedFiles().length > 0)) {
+				this.openIndexBuildModal();
+			} else if (this.indexMismatches.length > 0) {
+				this.openIndexMismatchModal();
+			}
+		});
+		this.initializeModels();
+		await this.updateApiServer();
 
 		// Add ribbon icon for search
 		const ribbonIconEl = this.addRibbonIcon('brain-circuit', 'Gemini RAG Search', (evt: MouseEvent) => {
@@ -70,6 +155,14 @@ export default class GeminiRAGPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'gemini-rag-related-notes-view',
+			name: 'Open Related Notes',
+			callback: () => {
+				this.activateRelatedNotesView();
+			}
+		});
+
 		this.addCommand({
 			id: 'gemini-rag-rebuild-embeddings',
 			name: 'Rebuild Embeddings Database',
@@ -79,71 +172,276 @@ export default class GeminiRAGPlugin extends Plugin {
 		});
 
 		this.addCommand({
-			id: 'gemini-rag-query',
-			name: 'Query with RAG Context',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				const selection = editor.getSelection();
-				if (selection) {
-					this.queryWithRAG(selection);
-				} else {
-					new Notice('Please select text to query');
-				}
+			id: 'gemini-rag-update-embeddings',
+			name: 'Update embeddings (changed files only)',
+			callback: () => {
+				this.updateChangedEmbeddings();
 			}
 		});
 
+		this.addCommand({
+			id: 'gemini-rag-evaluate',
+			name: 'Run retrieval evaluation',
+			callback: () => {
+				this.evaluateRetrieval();
+			}
+		});
+
+		for (const action of SELECTION_ACTIONS) {
+			this.addCommand({
+				id: action.id,
+				name: action.name,
+				editorCallback: (editor: Editor, view: MarkdownView) => {
+					if (!editor.getSelection().trim()) {
+						new Notice('Please select text to query');
+						return;
+					}
+					if (!this.embeddings || !this.llm) {
+						new Notice('Please configure your model provider in settings');
+						return;
+					}
+					new SelectionAnswerModal(this.app, this, editor, action, view.file?.path ?? '').open();
+				}
+			});
+		}
+
 		// Add settings tab
 		this.addSettingTab(new GeminiRAGSettingTab(this.app, this));
 
+		// Watch the vault only after startup, otherwise every existing file fires 'create'
+		this.app.workspace.onLayoutReady(() => this.registerVaultEvents());
+	}
+
+	registerVaultEvents() {
+		this.registerEvent(this.app.vault.on('create', (file) => this.queueFileChange(file, 'update')));
+		this.registerEvent(this.app.vault.on('modify', (file) => this.queueFileChange(file, 'update')));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.queueFileChange(file, 'delete')));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath)));
+	}
+
+	queueFileChange(file: TAbstractFile, change: 'update' | 'delete') {
+		if (!this.settings.autoUpdateEmbeddings) return;
+		if (!(file instanceof TFile) || !this.isIndexableFile(file)) return;
+		this.pendingChanges.set(file.path, change);
+		this.schedulePendingChanges();
+	}
+
+	async handleRename(file: TAbstractFile, oldPath: string) {
+		if (!(file instanceof TFile) || !this.isIndexableFile(file)) return;
+		// Saving would stamp the outdated index with the current settings
+		if (this.indexMismatches.length > 0) return;
+
+		// Moved into an excluded folder
+		if (!isPathIncluded(file.path, this.settings)) {
+			this.pendingChanges.delete(oldPath);
+			if (this.indexManifest.get(oldPath) && await this.ensureIndexLoaded() && this.removeFileFromIndex(oldPath)) {
+				await this.persistIndex();
+			}
+			return;
+		}
+
+		// Markdown chunks start with the note title, so a renamed note has to be re-embedded.
+		// Without automatic updates nothing would re-embed it, so only its metadata is renamed below.
+		if (file.extension === 'md' && this.settings.chunkingStrategy === 'markdown' && this.settings.autoUpdateEmbeddings
+			&& this.indexManifest.get(oldPath) && await this.ensureIndexLoaded()) {
+			this.removeFileFromIndex(oldPath);
+			this.queueFileChange(file, 'update');
+			return;
+		}
+
+		// Moved out of an excluded folder
+		if (!this.indexManifest.get(oldPath) && !isPathIncluded(oldPath, this.settings)) {
+			this.queueFileChange(file, 'update');
+			return;
+		}
+
+		// Renames only touch metadata, so they are applied right away without re-embedding
+		if (this.indexManifest.get(oldPath) && await this.ensureIndexLoaded() && this.vectorStore) {
+			for (const vector of this.vectorStore.memoryVectors) {
+				if (vector.metadata.source === oldPath) {
+					vector.metadata = { ...vector.metadata, source: file.path, fileName: file.name };
+				}
+			}
+			this.indexManifest.rename(oldPath, file.path);
+			await this.persistIndex();
+		}
+
+		const pending = this.pendingChanges.get(oldPath);
+		if (pending) {
+			this.pendingChanges.delete(oldPath);
+			this.pendingChanges.set(file.path, pending);
+		}
+	}
+
+	async processPendingChanges() {
+		if (this.pendingChanges.size === 0 || !this.embeddings) return;
+		if (this.indexMismatches.length > 0) {
+			// Chunks built with the current settings must not be mixed into the old index,
+			// the rebuild picks up these changes anyway
+			this.pendingChanges.clear();
+			return;
+		}
+		if (this.isIndexing) {
+			// Another indexing run is active, try again once it has finished
+			this.schedulePendingChanges();
+			return;
+		}
+
+		const changes = Array.from(this.pendingChanges.entries());
+		this.pendingChanges.clear();
+		this.isIndexing = true;
+
+		try {
+			await this.ensureIndexLoaded();
+			let changed = 0;
+			for (const [path, change] of changes) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (change === 'delete' || !(file instanceof TFile)) {
+					if (this.removeFileFromIndex(path)) changed++;
+				} else if (await this.indexFile(file)) {
+					changed++;
+				}
+			}
+
+			if (changed > 0) {
+				await this.persistIndex();
+				this.updateStatusBar(`Embeddings updated (${this.getTotalChunks()} chunks)`);
+			}
+		} catch (error) {
+			console.error('Error updating embeddings:', error);
+			this.updateStatusBar('Error updating embeddings');
+		} finally {
+			this.isIndexing = false;
+		}
 	}
 
 	onunload() {
-		// Cleanup if needed
+		this.apiServer.stop();
 	}
 
-	initializeGemini() {
-		if (this.settings.apiKey) {
-			this.embeddings = new GoogleGenerativeAIEmbeddings({
-				apiKey: this.settings.apiKey,
-				model: this.settings.embeddingModel,
-				maxRetries: 3,
-				maxConcurrency: 1
-			});
-			this.llm = new ChatGoogleGenerativeAI({
-				apiKey: this.settings.apiKey,
-				model: this.settings.generativeModel,
-				maxRetries: 3,
-				temperature: 0.1,
-				maxOutputTokens: 2048
-			});
+	/** Starts, restarts or stops the local API to match the settings. */
+	async updateApiServer() {
+		const { apiServerEnabled, apiServerPort, apiToken } = this.settings;
+		if (!apiServerEnabled || !apiToken) {
+			this.apiServerError = '';
+			this.failedApiServerConfig = '';
+			await this.apiServer.stop();
+			return;
+		}
+
+		const config = `${apiServerPort}:${apiToken}`;
+		if (this.apiServer.isRunning() && this.apiServer.port === apiServerPort && this.apiServer.token === apiToken) return;
+		if (!this.apiServer.isRunning() && config === this.failedApiServerConfig) return;
+
+		try {
+			await this.apiServer.start(apiServerPort, apiToken);
+			this.apiServerError = '';
+			this.failedApiServerConfig = '';
+		} catch (error) {
+			console.error('Error starting the local API:', error);
+			this.apiServerError = error.code === 'EADDRINUSE' ? `Port ${apiServerPort} is already in use` : error.message;
+			this.failedApiServerConfig = config;
+			new Notice(`The local API could not be started: ${this.apiServerError}`);
+		}
+	}
+
+	/** Replaces the local API token, so scripts using the old one are locked out. */
+	async regenerateApiToken() {
+		this.settings.apiToken = generateApiToken();
+		await this.saveSettings();
+	}
+
+	initializeModels() {
+		const chatProvider = getChatProvider(this.settings.chatProvider);
+		const embeddingProvider = getEmbeddingProvider(this.settings.embeddingProvider);
+
+		if (chatProvider.isConfigured(this.settings) && embeddingProvider.isConfigured(this.settings)) {
+			this.embeddings = new CachedEmbeddings(embeddingProvider.createEmbeddings(this.settings), this.embeddingCache, this.getEmbeddingModelKey());
+			this.fallbackModel = undefined;
+			this.llm = chatProvider.createChatModel(this.settings, this.getChatModelOptions());
 			this.textSplitter = new RecursiveCharacterTextSplitter({
 				chunkSize: this.settings.chunkSize,
 				chunkOverlap: this.settings.chunkOverlap
 			});
-			this.updateStatusBar('Gemini Ready');
+			this.markdownChunker = new MarkdownChunker({
+				chunkSize: this.settings.chunkSize,
+				chunkOverlap: this.settings.chunkOverlap
+			});
+			this.updateStatusBar(`${chatProvider.name} Ready`);
+			this.buildRAGChain();
 
 			// Try to load existing embeddings
 			this.loadExistingEmbeddings();
 		} else {
-			this.updateStatusBar('API Key Required');
+			this.embeddings = null;
+			this.llm = null;
+			this.updateStatusBar(chatProvider.id === 'gemini' || embeddingProvider.id === 'gemini'
+				? 'API Key Required'
+				: 'Provider Not Configured');
 		}
 	}
 
+	getChatModelOptions(model?: string): ChatModelOptions {
+		return {
+			model,
+			maxRetries: 3,
+			temperature: 0.1,
+			maxOutputTokens: 2048
+		};
+	}
+
 	updateStatusBar(text: string) {
 		if (this.statusBarItem) {
+			// A mismatched index stays visible until it is rebuilt
+			if (this.indexMismatches.length > 0 && !this.isIndexing) text = 'Index mismatch - rebuild required';
 			this.statusBarItem.setText(`Gemini RAG: ${text}`);
+			this.statusBarItem.toggleClass('gemini-rag-status-warning', this.indexMismatches.length > 0);
 		}
 	}
 
+	hasIncompatibleIndex(): boolean {
+		return this.indexMismatches.some(mismatch => mismatch.incompatible);
+	}
+
+	/**
+	 * Compares the loaded index header with the current settings and prompts
+	 * for a rebuild when they no longer match.
+	 */
+	checkIndexCompatibility() {
+		this.indexMismatches = this.indexHeader ? findIndexMismatches(this.indexHeader, this.getIndexInfo()) : [];
+		if (this.indexMismatches.length > 0) {
+			console.warn('Embeddings index does not match the current settings:', this.indexMismatches);
+			this.updateStatusBar('');
+			this.promptIndexRebuild();
+		} else {
+			this.lastPromptedMismatch = '';
+			this.statusBarItem?.removeClass('gemini-rag-status-warning');
+		}
+	}
+
+	showIndexMismatchPrompt() {
+		if (this.indexMismatches.length === 0) return;
+		// Settings are saved on every keystroke, only ask once for the same mismatch
+		const signature = JSON.stringify(this.indexMismatches);
+		if (signature === this.lastPromptedMismatch) return;
+		this.lastPromptedMismatch = signature;
+		this.openIndexMismatchModal();
+	}
+
+	openIndexMismatchModal() {
+		new IndexMismatchModal(this.app, this.indexMismatches, () => this.rebuildEmbeddings()).open();
+	}
+
 	async loadExistingEmbeddings() {
 		const loaded = await this.loadEmbeddings();
 		if (!loaded) {
-			this.updateStatusBar('Gemini Ready - No embeddings');
+			this.updateStatusBar('Ready - No embeddings');
 		}
 	}
 
 	async openRAGSearchModal() {
 		if (!this.embeddings || !this.llm) {
-			new Notice('Please configure your Gemini API key in settings');
+			new Notice('Please configure your model provider in settings');
 			return;
 		}
 		new RAGSearchModal(this.app, this).open();
@@ -152,7 +450,7 @@ export default class GeminiRAGPlugin extends Plugin {
 
 	async activateChatView() {
 		if (!this.embeddings || !this.llm) {
-			new Notice('Please configure your Gemini API key in settings');
+			new Notice('Please configure your model provider in settings');
 			return;
 		}
 
@@ -178,41 +476,146 @@ export default class GeminiRAGPlugin extends Plugin {
 		}
 	}
 
+	async activateRelatedNotesView() {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(RELATED_NOTES_VIEW_TYPE)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({ type: RELATED_NOTES_VIEW_TYPE, active: true });
+			}
+		}
+
+		if (leaf) {
+			workspace.revealLeaf(leaf);
+		}
+	}
+
 	async rebuildEmbeddings() {
 		if (!this.embeddings || !this.llm) {
-			new Notice('Please configure your Gemini API key in settings');
+			new Notice('Please configure your model provider in settings');
 			return;
 		}
 
-		this.updateStatusBar('Building embeddings...');
-		new Notice('Building embeddings database. This may take a while...');
+		if (this.isIndexing) {
+			new Notice('Embeddings are already being updated');
+			return;
+		}
 
 		try {
-			const markdownFiles = this.app.vault.getMarkdownFiles();
-			const documents: Document[] = [];
-
-			for (const file of markdownFiles) {
-				const content = await this.app.vault.read(file);
-				const chunks = await this.textSplitter.splitText(content);
-
-				for (const chunk of chunks) {
-					documents.push(new Document({
-						pageContent: chunk,
-						metadata: { source: file.path, fileName: file.name }
-					}));
+			this.isIndexing = true;
+
+			const builder = new IndexBuilder({
+				embeddings: this.embeddings,
+				checkpointDir: join(this.app.vault.configDir, 'plugins', 'obsidian-llmtalk', 'index-build'),
+				info: this.getIndexInfo(),
+				requestsPerMinute: this.settings.embeddingRequestsPerMinute,
+				loadFile: async (path) => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					if (!(file instanceof TFile)) throw new Error('File no longer exists');
+					const source = await this.readIndexSource(file);
+					return source && { hash: source.hash, documents: await source.split() };
 				}
+			});
+			this.indexBuilder = builder;
+			builder.onProgress(() => {
+				const progress = builder.getProgress();
+				if (builder.isRunning()) {
+					this.updateStatusBar(`Building embeddings... ${progress.done + progress.failed}/${progress.total}`);
+				}
+			});
+
+			const indexableFiles = this.getIndexableFiles();
+			const resumed = await builder.resume(indexableFiles.map(file => ({ path: file.path, mtime: file.stat.mtime })));
+			if (resumed > 0) {
+				new Notice(`Resuming the previous build, ${resumed} files are already embedded.`);
+			}
+			this.openIndexBuildModal();
+			await this.runIndexBuild(builder);
+		} finally {
+			this.isIndexing = false;
+		}
+	}
+
+	/**
+	 * Embeds the failed files of the last build again. A build that has not
+	 * replaced the index yet is finished as usual; otherwise only the retried
+	 * files are added, since the index has had incremental updates since.
+	 */
+	async retryFailedBuildFiles() {
+		const builder = this.indexBuilder;
+		if (!builder) return;
+		if (this.isIndexing) {
+			new Notice('Embeddings are already being updated');
+			return;
+		}
+		if (builder.applied && this.indexMismatches.length > 0) {
+			// Vectors from the old settings must not be added to the index
+			this.openIndexMismatchModal();
+			return;
+		}
+		const retried = builder.getFailedFiles().map(state => state.path);
+		if (builder.resetFailed() === 0) return;
+
+		this.isIndexing = true;
+		try {
+			if (builder.applied) {
+				await this.mergeRetriedBuildFiles(builder, retried);
+			} else {
+				await this.runIndexBuild(builder);
+			}
+		} finally {
+			this.isIndexing = false;
+		}
+	}
+
+	/**
+	 * Runs the builder and, unless it was cancelled, replaces the index with
+	 * everything it embedded. Files that failed are left out of the manifest,
+	 * so they are also picked up by the next incremental update.
+	 */
+	async runIndexBuild(builder: IndexBuilder) {
+		if (!this.embeddings) return;
+
+		try {
+			const { hits, misses } = this.embeddingCache;
+			await builder.run();
+			const reused = this.embeddingCache.hits - hits;
+			const embedded = this.embeddingCache.misses - misses;
+
+			if (builder.cancelled) {
+				// Keep what was paid for, the next rebuild takes it from the cache
+				await this.embeddingCache.save();
+				this.updateStatusBar('Build cancelled');
+				new Notice('Building embeddings was cancelled. The next rebuild continues where it stopped.');
+				return;
 			}
 
-			this.vectorStore = await MemoryVectorStore.fromDocuments(documents, this.embeddings);
+			const vectors = builder.getVectors();
+			// Also covers files restored from a checkpoint written before the cache
+			this.embeddingCache.retain(this.getEmbeddingModelKey(), vectors, true);
+			const vectorStore = new MemoryVectorStore(this.embeddings);
+			vectorStore.memoryVectors = vectors;
+			this.vectorStore = vectorStore;
+			this.keywordIndex = KeywordIndex.fromDocuments(vectors.map(vector => ({ id: vector.id, pageContent: vector.content })));
 
-			// Build RAG chain
-			await this.buildRAGChain();
+			this.indexManifest.clear();
+			builder.getManifestEntries().forEach(entry => this.indexManifest.set(entry));
 
 			// Save embeddings to disk
-			await this.saveEmbeddings();
+			await this.persistIndex();
+			await builder.clearCheckpoint();
+			builder.applied = true;
+			this.checkIndexCompatibility();
 
-			this.updateStatusBar(`Embeddings ready (${documents.length} chunks)`);
-			new Notice(`Embeddings built successfully! Processed ${markdownFiles.length} files and saved to disk.`);
+			const progress = builder.getProgress();
+			this.updateStatusBar(`Embeddings ready (${vectors.length} chunks)`);
+			if (progress.failed > 0) {
+				new Notice(`Embeddings built for ${progress.done} files, ${progress.failed} failed. Click the status bar to retry them.`);
+			} else {
+				new Notice(`Embeddings built successfully! Processed ${progress.done} files and saved to disk. ${embedded} chunks embedded, ${reused} reused from the cache.`);
+			}
 		} catch (error) {
 			console.error('Error building embeddings:', error);
 			new Notice('Error building embeddings. Check console for details.');
@@ -220,22 +623,647 @@ export default class GeminiRAGPlugin extends Plugin {
 		}
 	}
 
-	async queryWithRAG(query: string): Promise<string> {
-		if (!this.ragChain) {
-			new Notice('Please build embeddings first');
-			return 'Please build embeddings first using the "Rebuild Embeddings Database" command.';
+	/**
+	 * Embeds the retried files of a build that already replaced the index and
+	 * adds them to the current index. Files changed, renamed or deleted since
+	 * the build are left to the incremental updates.
+	 */
+	async mergeRetriedBuildFiles(builder: IndexBuilder, paths: string[]) {
+		if (!this.embeddings) return;
+
+		try {
+			await builder.run();
+			if (builder.cancelled) {
+				await this.embeddingCache.save();
+				this.updateStatusBar('Build cancelled');
+				return;
+			}
+
+			await this.ensureIndexLoaded();
+			let merged = 0;
+			for (const path of paths) {
+				const state = builder.files.get(path);
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (state?.status !== 'done' || !(file instanceof TFile) || file.stat.mtime !== state.mtime) continue;
+				// Already indexed by an incremental update
+				if (this.indexManifest.get(path)) continue;
+
+				if (!this.vectorStore) {
+					this.vectorStore = new MemoryVectorStore(this.embeddings);
+					this.keywordIndex = new KeywordIndex();
+				}
+				const vectors = builder.vectors.get(path) ?? [];
+				this.vectorStore.memoryVectors.push(...vectors);
+				vectors.forEach(vector => this.keywordIndex?.add(vector.id, vector.content));
+				this.indexManifest.set({ path, mtime: state.mtime, hash: state.hash ?? '', chunkIds: state.chunkIds });
+				merged++;
+			}
+
+			await this.persistIndex();
+			await builder.clearCheckpoint();
+
+			const failed = builder.getProgress().failed;
+			this.updateStatusBar(`Embeddings ready (${this.getTotalChunks()} chunks)`);
+			new Notice(failed > 0
+				? `${merged} files added to the index, ${failed} still failed.`
+				: `${merged} files added to the index.`);
+		} catch (error) {
+			console.error('Error retrying failed files:', error);
+			new Notice('Error retrying failed files. Check console for details.');
+			this.updateStatusBar('Error building embeddings');
+		}
+	}
+
+	openIndexBuildModal() {
+		if (this.indexBuilder) {
+			new IndexBuildModal(this.app, this, this.indexBuilder).open();
+		}
+	}
+
+	async updateChangedEmbeddings() {
+		if (!this.embeddings || !this.llm) {
+			new Notice('Please configure your model provider in settings');
+			return;
+		}
+		if (this.isIndexing) {
+			new Notice('Embeddings are already being updated');
+			return;
+		}
+
+		if (this.indexMismatches.length > 0) {
+			this.openIndexMismatchModal();
+			return;
+		}
+
+		try {
+			const { updated, removed } = await this.updateIndex();
+			new Notice(`Embeddings updated: ${updated} files re-indexed, ${removed} removed.`);
+		} catch (error) {
+			console.error('Error updating embeddings:', error);
+			new Notice('Error updating embeddings. Check console for details.');
+			this.updateStatusBar('Error updating embeddings');
+		}
+	}
+
+	/**
+	 * Re-indexes the files that were added, changed or removed since the last
+	 * update and saves the index. The caller checks that the models are set up
+	 * and the index matches the settings.
+	 */
+	async updateIndex(): Promise<{ updated: number; removed: number }> {
+		this.isIndexing = true;
+		this.updateStatusBar('Updating embeddings...');
+
+		try {
+			await this.ensureIndexLoaded();
+			const indexableFiles = this.getIndexableFiles();
+			const vaultPaths = new Set(indexableFiles.map(file => file.path));
+			let updated = 0;
+			let removed = 0;
+
+			// Drops deleted notes and notes in folders that are now excluded
+			for (const path of this.indexManifest.paths()) {
+				if (!vaultPaths.has(path) && this.removeFileFromIndex(path)) removed++;
+			}
+
+			for (const file of indexableFiles) {
+				if (await this.indexFile(file)) updated++;
+			}
+
+			if (updated > 0 || removed > 0) {
+				await this.persistIndex();
+			}
+
+			this.updateStatusBar(`Embeddings ready (${this.getTotalChunks()} chunks)`);
+			return { updated, removed };
+		} finally {
+			this.isIndexing = false;
+		}
+	}
+
+	/**
+	 * Re-embeds a single file if it changed since it was last indexed.
+	 * Returns true when the vector store was modified.
+	 */
+	async indexFile(file: TFile): Promise<boolean> {
+		if (!this.embeddings) return false;
+		if (!isPathIncluded(file.path, this.settings)) return this.removeFileFromIndex(file.path);
+
+		const entry = this.indexManifest.get(file.path);
+		if (entry && entry.mtime === file.stat.mtime) return false;
+
+		const source = await this.readIndexSource(file);
+		if (!source) return this.removeFileFromIndex(file.path);
+
+		const hash = source.hash;
+		if (entry && entry.hash === hash) {
+			// Touched but not changed, only remember the new mtime
+			this.indexManifest.set({ ...entry, mtime: file.stat.mtime });
+			return false;
+		}
+
+		const documents = await source.split();
+
+		if (!this.vectorStore) {
+			this.vectorStore = new MemoryVectorStore(this.embeddings);
+			this.keywordIndex = new KeywordIndex();
+		}
+
+		// Embed before dropping the old vectors so a failed request keeps the previous version
+		if (documents.length > 0) {
+			const vectors = await this.embeddings.embedDocuments(documents.map(doc => doc.pageContent));
+			this.removeFileFromIndex(file.path);
+			await this.vectorStore.addVectors(vectors, documents);
+			documents.forEach(doc => this.keywordIndex?.add(doc.id as string, doc.pageContent));
+		} else {
+			this.removeFileFromIndex(file.path);
+		}
+
+		this.indexManifest.set({
+			path: file.path,
+			mtime: file.stat.mtime,
+			hash,
+			chunkIds: documents.map(doc => doc.id as string)
+		});
+		return true;
+	}
+
+	/**
+	 * Drops all vectors of a file from the store and the manifest.
+	 * Returns true when anything was removed.
+	 */
+	removeFileFromIndex(path: string): boolean {
+		const entry = this.indexManifest.get(path);
+		this.indexManifest.delete(path);
+		if (!this.vectorStore) return !!entry;
+
+		const chunkIds = new Set(entry?.chunkIds ?? []);
+		const before = this.vectorStore.memoryVectors.length;
+		this.vectorStore.memoryVectors = this.vectorStore.memoryVectors.filter(vector => {
+			const remove = (vector.id && chunkIds.has(vector.id)) || vector.metadata.source === path;
+			if (remove && vector.id) this.keywordIndex?.remove(vector.id);
+			return !remove;
+		});
+		return !!entry || this.vectorStore.memoryVectors.length !== before;
+	}
+
+	/**
+	 * Reads a file for indexing: the hash stored in the manifest and a
+	 * function that splits it into chunks. Files other than notes are hashed
+	 * before extraction, so unchanged images are not sent to the vision model
+	 * again. Returns null for notes excluded by their frontmatter or tags.
+	 */
+	async readIndexSource(file: TFile): Promise<{ hash: string; split: () => Promise<Document[]> } | null> {
+		if (file.extension === 'md') {
+			const content = await this.app.vault.read(file);
+			if (isNoteExcluded(this.readNoteMetadata(content), this.settings)) return null;
+			return { hash: hashContent(content), split: () => this.splitFile(file, content) };
+		}
+
+		const extractor = getExtractor(file.extension, this.settings);
+		if (!extractor) return null;
+		const data = await this.app.vault.readBinary(file);
+		const context: ExtractorContext = { settings: this.settings, getVisionModel: () => this.createVisionModel() };
+		return {
+			// Switching between the mock and the vision model has to replace the text
+			hash: `${extractor.id}:${hashContent(new Uint8Array(data))}`,
+			split: async () => this.splitExtracted(file, await extractor.extract(file, data, context))
+		};
+	}
+
+	async splitFile(file: TFile, content: string): Promise<Document[]> {
+		const chunks = await this.chunkContent(file, content);
+		const { frontmatter: rawFrontmatter, tags } = this.readNoteMetadata(content);
+		const frontmatter = extractFrontmatterMetadata(rawFrontmatter);
+		const hash = hashContent(`${file.path}\n${content}`).substring(0, 16);
+
+		return chunks.map((chunk, index) => new Document({
+			pageContent: chunk.content,
+			metadata: {
+				source: file.path,
+				fileName: file.name,
+				...chunk.location,
+				mtime: file.stat.mtime,
+				tags,
+				aliases: frontmatter.aliases,
+				dates: frontmatter.dates
+			},
+			id: `${hash}-${index}`
+		}));
+	}
+
+	/**
+	 * Chunks the text extracted from a PDF, canvas or image section by
+	 * section, so every chunk can be cited with its page or card.
+	 */
+	async splitExtracted(file: TFile, sections: ExtractedSection[]): Promise<Document[]> {
+		const hash = hashContent(`${file.path}\n${sections.map(section => section.text).join('\n')}`).substring(0, 16);
+		const documents: Document[] = [];
+
+		for (const section of sections) {
+			for (const chunk of await this.textSplitter.splitText(section.text)) {
+				documents.push(new Document({
+					pageContent: chunk,
+					metadata: {
+						source: file.path,
+						fileName: file.name,
+						headingPath: section.label ? [section.label] : [],
+						page: section.page,
+						nodeId: section.nodeId,
+						mtime: file.stat.mtime,
+						tags: []
+					},
+					id: `${hash}-${documents.length}`
+				}));
+			}
 		}
+		return documents;
+	}
+
+	createVisionModel(): BaseChatModel {
+		return getChatProvider(this.settings.chatProvider).createChatModel(this.settings, {
+			...this.getChatModelOptions(this.settings.visionModel.trim() || undefined),
+			temperature: 0
+		});
+	}
+
+	async chunkContent(file: TFile, content: string): Promise<{ content: string; location: ChunkLocation }[]> {
+		if (this.settings.chunkingStrategy === 'markdown') {
+			return this.markdownChunker.split(content, file.basename);
+		}
+
+		const chunks = await this.textSplitter.splitText(content);
+		const locations = locateChunks(content, chunks);
+		return chunks.map((chunk, index) => ({ content: chunk, location: locations[index] }));
+	}
+
+	/** Frontmatter and all tags of a note, from frontmatter and inline. */
+	readNoteMetadata(content: string): { frontmatter: Record<string, unknown> | null; tags: string[] } {
+		const frontmatter = this.parseFrontmatter(content);
+		const tags = Array.from(new Set([...extractFrontmatterMetadata(frontmatter).tags, ...extractInlineTags(content)]));
+		return { frontmatter, tags };
+	}
+
+	/** Notes, and files of the types an enabled extractor can read. */
+	isIndexableFile(file: TFile): boolean {
+		return file.extension === 'md' || !!getExtractor(file.extension, this.settings);
+	}
+
+	/** Indexable files allowed by the folder and pattern rules. */
+	getIndexableFiles(): TFile[] {
+		return this.app.vault.getFiles().filter(file => this.isIndexableFile(file) && isPathIncluded(file.path, this.settings));
+	}
+
+	getIndexRulesSignature(): string {
+		const { includeFolders, excludeFolders, excludePatterns, excludeTags, excludeFrontmatterKey, indexPdfs, indexCanvases, imageIndexing } = this.settings;
+		return JSON.stringify({ includeFolders, excludeFolders, excludePatterns, excludeTags, excludeFrontmatterKey, indexPdfs, indexCanvases, imageIndexing });
+	}
+
+	/** Checks the rules against the metadata cache, without reading the note. */
+	isExcludedByRules(file: TFile): boolean {
+		if (!this.isIndexableFile(file) || !isPathIncluded(file.path, this.settings)) return true;
+		const cache = this.app.metadataCache.getFileCache(file);
+		return isNoteExcluded({ frontmatter: cache?.frontmatter, tags: (cache && getAllTags(cache)) || [] }, this.settings);
+	}
+
+	/**
+	 * Removes notes that the current include/exclude rules no longer allow.
+	 * Tags and frontmatter come from the metadata cache, so notes don't have
+	 * to be read again.
+	 */
+	async purgeExcludedFiles() {
+		if (this.indexMismatches.length > 0 || this.indexManifest.size() === 0) return;
+		if (this.isIndexing) {
+			// Another indexing run is active, try again once it has finished
+			this.schedulePurgeExcluded();
+			return;
+		}
+		if (!(await this.ensureIndexLoaded())) return;
+
+		this.isIndexing = true;
+		try {
+			let removed = 0;
+			for (const path of this.indexManifest.paths()) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				const excluded = file instanceof TFile ? this.isExcludedByRules(file) : !isPathIncluded(path, this.settings);
+				if (excluded && this.removeFileFromIndex(path)) removed++;
+			}
+
+			if (removed > 0) {
+				await this.persistIndex();
+				this.updateStatusBar(`Embeddings ready (${this.getTotalChunks()} chunks)`);
+				new Notice(`Removed ${removed} excluded notes from the embeddings database.`);
+			}
+		} catch (error) {
+			console.error('Error removing excluded notes:', error);
+		} finally {
+			this.isIndexing = false;
+		}
+	}
+
+	parseFrontmatter(content: string): Record<string, unknown> | null {
+		const { yaml } = splitFrontmatter(content);
+		if (!yaml) return null;
+		try {
+			return parseYaml(yaml);
+		} catch (error) {
+			return null;
+		}
+	}
+
+	async persistIndex() {
+		await this.saveEmbeddings();
+		await this.indexManifest.save();
+		await this.embeddingCache.save();
+	}
+
+	/**
+	 * Answers a question from the indexed notes. Earlier chat messages, if given,
+	 * are used to turn follow-up questions into standalone retrieval queries.
+	 * The returned sources are exactly the chunks the answer was generated from.
+	 * Inline filters in the query (`folder:`, `tag:`, `after:`, `before:`) are
+	 * combined with options.filter.
+	 */
+	async queryWithRAG(query: string, options: QueryOptions = {}): Promise<RAGResult> {
+		if (!this.llm || !(await this.ensureIndexLoaded())) {
+			const message = this.getIndexUnavailableMessage();
+			new Notice(message);
+			return { answer: message, sources: [] };
+		}
+
+		const mode = await this.getPromptMode(options.mode);
 
 		return await this.retryWithFallback(async () => {
 			this.updateStatusBar('Querying...');
-			const result = await this.ragChain.invoke({ input: query });
+			const parsed = parseQueryFilters(query);
+			const history = options.history ?? [];
+			const sources = await this.retrieveContext(options.retrievalQuery ?? parsed.query, this.getHistoryMessages(history), mergeFilters(parsed.filter, options.filter), options.context);
+			const prompt = await this.buildAnswerPrompt(mode, parsed.query, history, sources);
+			const answer = await this.createAnswerChain(mode).invoke(prompt);
 			this.updateStatusBar('Ready');
-			return result.answer;
+			return { answer, sources };
+		});
+	}
+
+	/**
+	 * Streaming variant of queryWithRAG. Yields the retrieved sources once,
+	 * followed by the answer as it is generated. The answer is only requested
+	 * once the caller reads past the sources, so callers that stop there (e.g.
+	 * when nothing was found) cost no model request. When the index or the
+	 * models can't be used, yields a single 'unavailable' event instead.
+	 * Aborting the signal stops the request and ends the stream without an error.
+	 */
+	async *streamQueryWithRAG(query: string, options: QueryOptions = {}): AsyncGenerator<RAGStreamEvent> {
+		const signal = options.signal;
+
+		if (!this.llm || !(await this.ensureIndexLoaded())) {
+			const message = this.getIndexUnavailableMessage();
+			new Notice(message);
+			yield { type: 'unavailable', message };
+			return;
+		}
+
+		this.updateStatusBar('Querying...');
+		let starting = false;
+		let failed = false;
+		let answer: AsyncIterator<string> | null = null;
+
+		try {
+			const mode = await this.getPromptMode(options.mode);
+			const parsed = parseQueryFilters(query);
+			const history = options.history ?? [];
+			const sources = await this.retrieveContext(options.retrievalQuery ?? parsed.query, this.getHistoryMessages(history), mergeFilters(parsed.filter, options.filter), options.context);
+			yield { type: 'sources', sources };
+			if (signal?.aborted) return;
+
+			const prompt = await this.buildAnswerPrompt(mode, parsed.query, history, sources);
+
+			// Retried like queryWithRAG, with the fallback model when the service is
+			// overloaded, until the first part of the answer has arrived
+			starting = true;
+			const start = await this.retryWithFallback(async () => {
+				try {
+					const iterator = (await this.createAnswerChain(mode).stream(prompt, { signal }))[Symbol.asyncIterator]();
+					return { iterator, first: await iterator.next() };
+				} catch (error) {
+					// Stopping is neither retried nor reported
+					if (signal?.aborted) return null;
+					throw error;
+				}
+			});
+			starting = false;
+			if (!start) return;
+			answer = start.iterator;
+
+			for (let next = start.first; !next.done; next = await start.iterator.next()) {
+				if (next.value) yield { type: 'token', text: next.value };
+			}
+		} catch (error) {
+			if (signal?.aborted) return;
+			failed = true;
+			// retryWithFallback has reported its errors already
+			if (starting) throw error;
+			console.error('Streaming query failed:', error);
+			throw this.reportQueryError(error);
+		} finally {
+			// Also runs when the caller stops reading early, which closes the model stream like for await would
+			await answer?.return?.();
+			if (signal?.aborted) {
+				this.updateStatusBar('Stopped');
+			} else if (!failed) {
+				this.updateStatusBar('Ready');
+			}
+		}
+	}
+
+	/**
+	 * Answers in agent mode: the model searches, reads and lists notes through
+	 * the vault tools until it can answer, within the "Agent Max Steps"
+	 * setting. Creating or changing notes asks the user first.
+	 */
+	async queryWithAgent(question: string, options: { history?: ChatMessage[]; filter?: RetrievalFilter; signal?: AbortSignal; onStep?: (step: AgentStep) => void } = {}): Promise<AgentResult> {
+		if (!this.llm || !(await this.ensureIndexLoaded())) {
+			const message = this.getIndexUnavailableMessage();
+			new Notice(message);
+			return { answer: message, steps: [], sources: [], stopped: false };
+		}
+
+		this.updateStatusBar('Agent working...');
+		try {
+			const result = await runAgent(fromChatModel(this.llm), createVaultTools(this, options.filter), question, {
+				history: this.getHistoryMessages(options.history ?? []),
+				maxSteps: this.settings.agentMaxSteps,
+				confirm: (tool, description) => new Promise(resolve => {
+					const modal = new ConfirmModal(this.app, `Allow ${tool.name.replace(/_/g, ' ')}?`, description, 'Allow',
+						() => resolve(true), () => resolve(false));
+					// Stopping the agent declines the pending change
+					options.signal?.addEventListener('abort', () => modal.close(), { once: true });
+					if (options.signal?.aborted) resolve(false);
+					else modal.open();
+				}),
+				onStep: options.onStep,
+				signal: options.signal
+			});
+			this.updateStatusBar(result.stopped ? 'Stopped' : 'Ready');
+			return result;
+		} catch (error) {
+			console.error('Agent failed:', error);
+			throw this.reportQueryError(error);
+		}
+	}
+
+	getHistoryMessages(history: ChatMessage[]): BaseMessage[] {
+		const recentHistory = selectRecentHistory(history, this.settings.historyTurns, this.settings.historyTokenBudget);
+		return toLangChainMessages(recentHistory);
+	}
+
+	/**
+	 * The single retrieval step of a RAG query: rewrites the question using the
+	 * conversation if there is one, then searches the index once. Notes added
+	 * through the context options are merged in under the context budget.
+	 */
+	async retrieveContext(query: string, chatHistory: BaseMessage[], filter?: RetrievalFilter, context?: NoteContextOptions): Promise<DocumentChunk[]> {
+		let searchQuery = query;
+		if (chatHistory.length > 0 && this.rephraseChain) {
+			searchQuery = (await this.rephraseChain.invoke({ input: query, chat_history: chatHistory })).trim() || query;
+		}
+		const retrieved = await this.searchSimilarChunks(searchQuery, filter);
+		const extra = context ? await this.getNoteContext(context) : [];
+		return mergeContext(retrieved, extra, this.settings.contextTokenBudget);
+	}
+
+	/**
+	 * Chunks of the active note, the pinned notes and folders, and the notes
+	 * linked to or from the active note, in that order. Notes excluded from
+	 * the index are left out here too.
+	 */
+	async getNoteContext(options: NoteContextOptions): Promise<DocumentChunk[]> {
+		const added = new Set<string>();
+		const take = (files: TFile[]) => files.filter(file => {
+			if (file.extension !== 'md' || added.has(file.path) || this.isExcludedByRules(file)) return false;
+			added.add(file.path);
+			return true;
+		});
+
+		const activeFile = this.app.workspace.getActiveFile();
+		const active = options.activeNote && activeFile ? take([activeFile]) : [];
+
+		const pinned = take(options.pinned.flatMap(path => {
+			if (isPinnedFolder(path)) {
+				return this.app.vault.getMarkdownFiles()
+					.filter(file => file.path.startsWith(path))
+					.sort((a, b) => a.path.localeCompare(b.path));
+			}
+			const file = this.app.vault.getAbstractFileByPath(path);
+			return file instanceof TFile ? [file] : [];
+		}));
+
+		const linked = options.linkedNotes && activeFile ? take(this.getLinkedFiles(activeFile)) : [];
+
+		const chunksOf = (files: TFile[], origin: ContextOrigin) => Promise.all(files.map(file => this.getNoteChunks(file, origin)));
+		return [
+			...interleaveChunks(await chunksOf(active, 'active')),
+			...interleaveChunks(await chunksOf(pinned, 'pinned')),
+			...interleaveChunks(await chunksOf(linked, 'linked'))
+		];
+	}
+
+	/** Outgoing links of a note followed by its backlinks, capped at MAX_LINKED_NOTES. */
+	getLinkedFiles(file: TFile): TFile[] {
+		return createLinkLookup(this.app.metadataCache.resolvedLinks)(file.path)
+			.map(path => this.app.vault.getAbstractFileByPath(path))
+			.filter((linked): linked is TFile => linked instanceof TFile)
+			.slice(0, MAX_LINKED_NOTES);
+	}
+
+	/**
+	 * Splits a note the same way the index does, so chunks that are also
+	 * found by the search can be recognized as duplicates.
+	 */
+	async getNoteChunks(file: TFile, origin: ContextOrigin): Promise<DocumentChunk[]> {
+		const content = await this.app.vault.cachedRead(file);
+		const chunks = await this.chunkContent(file, content);
+		return chunks.map(chunk => ({
+			content: chunk.content,
+			filePath: file.path,
+			fileName: file.name,
+			...chunk.location,
+			origin
+		}));
+	}
+
+	/**
+	 * Fills in the mode's template. The active note is only read when the
+	 * template uses it.
+	 */
+	async buildAnswerPrompt(mode: PromptMode, input: string, history: ChatMessage[], sources: DocumentChunk[]): Promise<string> {
+		const recentHistory = selectRecentHistory(history, this.settings.historyTurns, this.settings.historyTokenBudget);
+		const variables: PromptVariables = {
+			context: formatContext(sources),
+			input,
+			history: formatHistory(recentHistory),
+			currentNote: mode.template.includes('{currentNote}') ? await this.getCurrentNoteText() : '',
+			date: new Date().toISOString().substring(0, 10)
+		};
+		return renderPromptTemplate(mode.template, variables);
+	}
+
+	async getCurrentNoteText(): Promise<string> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== 'md') return '(no open note)';
+		const content = await this.app.vault.cachedRead(file);
+		// Keep long notes from crowding out the retrieved context
+		const maxLength = 8000;
+		const text = content.length > maxLength ? `${content.substring(0, maxLength)}\n[...]` : content;
+		return `Title: ${file.basename}\n\n${text}`;
+	}
+
+	/**
+	 * A chat model configured with the mode's temperature and token limit,
+	 * turning a rendered prompt into the answer text.
+	 */
+	createAnswerChain(mode: PromptMode): Runnable<string, string> {
+		const llm = getChatProvider(this.settings.chatProvider).createChatModel(this.settings, {
+			...this.getChatModelOptions(this.fallbackModel),
+			temperature: mode.temperature,
+			maxOutputTokens: mode.maxOutputTokens
 		});
+		return RunnableLambda.from((prompt: string) => [new HumanMessage(prompt)])
+			.pipe(llm)
+			.pipe(new StringOutputParser());
+	}
+
+	/** Modes from the settings followed by those loaded from the template folder. */
+	async getPromptModes(): Promise<PromptMode[]> {
+		const modes = this.settings.promptModes.length > 0 ? [...this.settings.promptModes] : [...BUILT_IN_PROMPT_MODES];
+		const folder = normalizeFolder(this.settings.promptTemplateFolder);
+		if (!folder) return modes;
+
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(file => file.path.startsWith(folder))
+			.sort((a, b) => a.path.localeCompare(b.path));
+		for (const file of files) {
+			try {
+				const mode = parsePromptTemplateNote(file.path, file.basename, await this.app.vault.cachedRead(file));
+				if (mode) modes.push(mode);
+			} catch (error) {
+				console.error(`Error loading prompt template ${file.path}:`, error);
+			}
+		}
+		return modes;
+	}
+
+	async getPromptMode(id?: string): Promise<PromptMode> {
+		const modes = await this.getPromptModes();
+		return modes.find(mode => mode.id === (id ?? this.settings.defaultPromptMode))
+			?? modes.find(mode => mode.id === this.settings.defaultPromptMode)
+			?? modes[0]
+			?? BUILT_IN_PROMPT_MODES[0];
 	}
 
 	async retryWithFallback<T>(operation: () => Promise<T>): Promise<T> {
-		const fallbackModels = ['gemini-1.5-flash-latest', 'gemini-1.5-flash', 'gemini-1.0-pro'];
+		const chatProvider = getChatProvider(this.settings.chatProvider);
+		const fallbackModels = chatProvider.fallbackModels;
 
 		for (let attempt = 0; attempt < 3; attempt++) {
 			try {
@@ -247,20 +1275,16 @@ export default class GeminiRAGPlugin extends Plugin {
 					this.updateStatusBar(`Retrying... (${attempt + 1}/3)`);
 
 					// Try different model on second attempt
-					if (attempt === 1 && this.llm) {
+					if (attempt === 1 && this.llm && fallbackModels.length > 0) {
 						const fallbackModel = fallbackModels[attempt % fallbackModels.length];
 						console.log(`Switching to fallback model: ${fallbackModel}`);
-						this.llm = new ChatGoogleGenerativeAI({
-							apiKey: this.settings.apiKey,
-							model: fallbackModel,
-							maxRetries: 2,
-							temperature: 0.1,
-							maxOutputTokens: 2048
+						this.fallbackModel = fallbackModel;
+						this.llm = chatProvider.createChatModel(this.settings, {
+							...this.getChatModelOptions(fallbackModel),
+							maxRetries: 2
 						});
 						// Rebuild chain with new model
-						if (this.vectorStore) {
-							await this.rebuildChainWithNewModel();
-						}
+						await this.rebuildChainWithNewModel();
 					}
 
 					// Wait before retry with exponential backoff
@@ -268,119 +1292,391 @@ export default class GeminiRAGPlugin extends Plugin {
 					continue;
 				} else {
 					// Non-503 errors, handle immediately
-					let errorMessage = 'An error occurred while querying.';
-					if (error.message?.includes('401') || error.message?.includes('API key')) {
-						errorMessage = 'Invalid API key. Please check your settings.';
-						this.updateStatusBar('Invalid API Key');
-					} else if (error.message?.includes('429') || error.message?.includes('quota')) {
-						errorMessage = 'Rate limit exceeded. Please wait before trying again.';
-						this.updateStatusBar('Rate Limited');
-					} else {
-						this.updateStatusBar('Error');
-					}
-
-					new Notice(errorMessage);
-					throw new Error(errorMessage);
+					throw this.reportQueryError(error);
 				}
 			}
 		}
 
 		// All attempts failed
 		this.updateStatusBar('Service Unavailable');
-		const errorMessage = 'Google AI service is unavailable after multiple attempts. Please try again later.';
+		const errorMessage = `${chatProvider.name} service is unavailable after multiple attempts. Please try again later.`;
 		new Notice(errorMessage);
 		throw new Error(errorMessage);
 	}
 
+	/**
+	 * Turns a failed model request into a user-facing error and shows it.
+	 */
+	reportQueryError(error: any): Error {
+		let errorMessage = 'An error occurred while querying.';
+		if (error.message?.includes('401') || error.message?.includes('API key')) {
+			errorMessage = 'Invalid API key. Please check your settings.';
+			this.updateStatusBar('Invalid API Key');
+		} else if (error.message?.includes('429') || error.message?.includes('quota')) {
+			errorMessage = 'Rate limit exceeded. Please wait before trying again.';
+			this.updateStatusBar('Rate Limited');
+		} else {
+			this.updateStatusBar('Error');
+		}
+
+		new Notice(errorMessage);
+		return new Error(errorMessage);
+	}
+
 	async rebuildChainWithNewModel() {
 		await this.buildRAGChain();
 	}
 
-	async searchSimilarChunks(query: string): Promise<DocumentChunk[]> {
-		if (!this.vectorStore) return [];
-		const docsWithScores = await this.vectorStore.similaritySearchWithScore(query, this.settings.maxResults);
-		return docsWithScores.map(([doc, score]) => ({
-			content: doc.pageContent,
-			filePath: doc.metadata.source || '',
-			fileName: doc.metadata.fileName || '',
-			similarity: Math.round((1 - score) * 100) / 100 // Convert distance to similarity score
-		}));
+	/**
+	 * Hybrid vector and keyword search over the index, restricted to chunks
+	 * matching the filter and any inline filters in the query.
+	 */
+	async searchSimilarChunks(query: string, filter?: RetrievalFilter): Promise<DocumentChunk[]> {
+		if (!(await this.ensureIndexLoaded()) || !this.vectorStore) return [];
+		const parsed = parseQueryFilters(query);
+		const retriever = new HybridRetriever(this.vectorStore, this.keywordIndex);
+		return await retriever.search(parsed.query || query, {
+			...getRetrievalOptions(this.settings),
+			filter: this.createMetadataFilter(mergeFilters(parsed.filter, filter)),
+			linkExpansion: {
+				hops: this.settings.linkExpansionHops,
+				weight: this.settings.linkExpansionWeight,
+				// Linked passages take at most half of the results
+				maxResults: Math.floor(this.settings.maxResults / 2),
+				getLinkedPaths: createLinkLookup(this.app.metadataCache.resolvedLinks)
+			}
+		});
+	}
+
+	/** Keyword search over the index without embeddings, for exact names and codes. */
+	async searchKeywordChunks(query: string, filter?: RetrievalFilter): Promise<DocumentChunk[]> {
+		if (!(await this.ensureIndexLoaded()) || !this.vectorStore) return [];
+		const parsed = parseQueryFilters(query);
+		const retriever = new HybridRetriever(this.vectorStore, this.keywordIndex);
+		return retriever.keywordSearch(parsed.query || query, this.settings.maxResults, this.createMetadataFilter(mergeFilters(parsed.filter, filter)));
+	}
+
+	createMetadataFilter(filter: RetrievalFilter) {
+		return createMetadataFilter(filter, {
+			getModifiedTime: (path) => {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				return file instanceof TFile ? file.stat.mtime : undefined;
+			}
+		});
+	}
+
+	/**
+	 * The notes closest to the given one, compared chunk by chunk using the
+	 * stored vectors. Null when there is no usable index or the note is not in it.
+	 */
+	async getRelatedNotes(file: TFile, limit = 10): Promise<RelatedNote[] | null> {
+		if (!(await this.ensureIndexLoaded()) || !this.vectorStore) return null;
+		return findRelatedNotes(this.vectorStore.memoryVectors, file.path, {
+			limit,
+			passagesPerNote: 2,
+			similarity: this.vectorStore.similarity
+		});
 	}
 
 	getTotalChunks(): number {
-		return this.vectorStore?.memoryVectors?.length || 0;
+		return this.vectorStore?.memoryVectors?.length ?? this.indexHeader?.count ?? 0;
+	}
+
+	getIndexUnavailableMessage(): string {
+		if (this.hasIncompatibleIndex()) {
+			return 'The embeddings database was built with a different embedding model. Rebuild it using the "Rebuild Embeddings Database" command.';
+		}
+		return 'Please build embeddings first using the "Rebuild Embeddings Database" command.';
+	}
+
+	/** Identifies the embedding model in the embedding cache. */
+	getEmbeddingModelKey(): string {
+		const info = this.getIndexInfo();
+		return `${info.embeddingProvider}/${info.embeddingModel}`;
+	}
+
+	getIndexInfo(): IndexInfo {
+		return {
+			embeddingProvider: this.settings.embeddingProvider,
+			embeddingModel: getEmbeddingProvider(this.settings.embeddingProvider).getModelName(this.settings),
+			chunking: {
+				strategy: this.settings.chunkingStrategy,
+				chunkSize: this.settings.chunkSize,
+				chunkOverlap: this.settings.chunkOverlap
+			},
+			quantization: this.settings.vectorQuantization
+		};
 	}
 
 	async saveEmbeddings() {
 		if (!this.vectorStore) return;
 
 		try {
-			const vectorData = {
-				memoryVectors: this.vectorStore.memoryVectors,
-				timestamp: Date.now()
-			};
-
-			await fs.writeFile(this.embeddingsPath, JSON.stringify(vectorData, null, 2));
+			const vectors = this.vectorStore.memoryVectors.map((vector, index) => ({
+				id: vectorId(vector, index),
+				content: vector.content,
+				metadata: vector.metadata,
+				embedding: vector.embedding
+			}));
+			this.indexHeader = await this.indexStore.write(vectors, this.keywordIndex?.toJSON() ?? null, this.getIndexInfo());
 			console.log('Embeddings saved to disk');
 		} catch (error) {
 			console.error('Error saving embeddings:', error);
 		}
 	}
 
+	/**
+	 * Reads only the index header, converting an old embeddings.json first if
+	 * there is one. Vectors are loaded by ensureIndexLoaded when first needed,
+	 * so startup is not blocked by large indexes.
+	 */
 	async loadEmbeddings(): Promise<boolean> {
+		if (!this.embeddings) return false;
+
 		try {
-			const data = await fs.readFile(this.embeddingsPath, 'utf-8');
-			const vectorData = JSON.parse(data);
+			let header = await this.indexStore.readHeader();
+			if (!header) {
+				header = await this.indexStore.migrateLegacyFile(this.embeddingsPath, this.getIndexInfo());
+				if (header) {
+					console.log(`Converted embeddings.json to the compact index format (${header.count} chunks)`);
+				}
+			}
+			if (!header) return false;
 
-			if (!this.embeddings) return false;
+			this.indexHeader = header;
+			await this.indexManifest.load();
 
-			// Create new vector store with saved data
-			this.vectorStore = new MemoryVectorStore(this.embeddings);
-			this.vectorStore.memoryVectors = vectorData.memoryVectors;
+			// Settings changes re-create the embeddings client, keep an already loaded index
+			if (this.vectorStore) {
+				this.vectorStore.embeddings = this.embeddings;
+			}
+
+			this.checkIndexCompatibility();
+			this.updateStatusBar(`Embeddings available (${this.getTotalChunks()} chunks)`);
+			return true;
+		} catch (error) {
+			console.log('No existing embeddings found or error loading:', error.message);
+			return false;
+		}
+	}
+
+	/**
+	 * Loads vectors, chunk texts and the keyword index into memory the first
+	 * time they are needed. Returns false when there is no usable index,
+	 * including one built with a different embedding model.
+	 */
+	async ensureIndexLoaded(): Promise<boolean> {
+		// Never compare queries against vectors from another embedding model
+		if (this.hasIncompatibleIndex()) return false;
+		if (this.vectorStore) return true;
+		if (!this.indexHeader || !this.embeddings) return false;
+
+		if (!this.indexLoading) {
+			this.indexLoading = this.readIndex().finally(() => {
+				this.indexLoading = null;
+			});
+		}
+		return await this.indexLoading;
+	}
+
+	async readIndex(): Promise<boolean> {
+		if (!this.indexHeader || !this.embeddings) return false;
+
+		try {
+			this.updateStatusBar('Loading embeddings...');
+			const vectors = await this.indexStore.readVectors(this.indexHeader);
+			const keywordData = await this.indexStore.readKeywordIndex();
+
+			const vectorStore = new MemoryVectorStore(this.embeddings);
+			vectorStore.memoryVectors = vectors;
+
+			// Indexes saved without keyword data get it rebuilt from the stored chunk texts
+			this.keywordIndex = (keywordData && KeywordIndex.fromJSON(keywordData))
+				|| KeywordIndex.fromDocuments(vectors.map(vector => ({ id: vector.id, pageContent: vector.content })));
+			this.vectorStore = vectorStore;
 
-			// Rebuild the RAG chain with loaded embeddings
-			await this.buildRAGChain();
+			// Compressed vectors are only approximations, they keep cached vectors from expiring but are not added
+			await this.embeddingCache.ensureLoaded();
+			this.embeddingCache.retain(this.getEmbeddingModelKey(), vectors, this.indexHeader.quantization === 'float32');
 
 			const chunkCount = this.getTotalChunks();
 			this.updateStatusBar(`Embeddings loaded (${chunkCount} chunks)`);
 			console.log(`Embeddings loaded from disk: ${chunkCount} chunks`);
 			return true;
 		} catch (error) {
-			console.log('No existing embeddings found or error loading:', error.message);
+			console.error('Error loading embeddings:', error);
+			this.updateStatusBar('Error loading embeddings');
 			return false;
 		}
 	}
 
 	async buildRAGChain() {
-		if (!this.llm || !this.vectorStore) return;
+		if (!this.llm) return;
 
-		const prompt = ChatPromptTemplate.fromTemplate(`
-			Answer the following question based only on the provided context:
+		const rephrasePrompt = ChatPromptTemplate.fromMessages([
+			new MessagesPlaceholder('chat_history'),
+			['human', '{input}'],
+			['human', 'Given the conversation above, rewrite the last question as a standalone search query that can be understood without the conversation. Only return the query.']
+		]);
 
-			<context>
-			{context}
-			</context>
+		this.rephraseChain = rephrasePrompt.pipe(this.llm).pipe(new StringOutputParser());
+	}
 
-			Question: {input}`);
+	async loadChatSessions() {
+		await this.chatSessions.load();
 
-		const documentChain = await createStuffDocumentsChain({
-			llm: this.llm,
-			prompt,
-		});
+		// Earlier versions kept a single chat in data.json, move it into its own session
+		const data = await this.loadData();
+		if (data && Array.isArray(data.chatHistory)) {
+			if (data.chatHistory.length > 0) {
+				const session = this.chatSessions.create('Previous chat', data.chatHistory);
+				this.chatSessions.touch(session);
+				await this.chatSessions.save();
+			}
+			delete (this.settings as GeminiRAGSettings & { chatHistory?: ChatMessage[] }).chatHistory;
+			await this.saveData(this.settings);
+		}
+	}
 
-		this.ragChain = await createRetrievalChain({
-			retriever: this.vectorStore.asRetriever(),
-			combineDocsChain: documentChain,
-		});
+	/**
+	 * Writes a chat session to a new note in the export folder and opens it.
+	 */
+	async exportChatSession(session: ChatSession): Promise<TFile | null> {
+		if (session.messages.length === 0) {
+			new Notice('This chat has no messages to export');
+			return null;
+		}
+
+		try {
+			const file = await this.createUniqueNote(this.settings.chatExportFolder, toNoteName(session.name),
+				(path) => formatSessionAsMarkdown(session, (source) => formatSourceLink(this.app, source, path)));
+			await this.app.workspace.getLeaf(true).openFile(file);
+			new Notice(`Chat exported to ${file.path}`);
+			return file;
+		} catch (error) {
+			console.error('Error exporting chat:', error);
+			new Notice('Error exporting chat. Check console for details.');
+			return null;
+		}
+	}
+
+	/**
+	 * Creates a note in the folder, numbering the name when it is taken.
+	 * The content is built for the final path, so relative links resolve.
+	 */
+	async createUniqueNote(folderPath: string, name: string, buildContent: (path: string) => string): Promise<TFile> {
+		const folder = normalizePath(folderPath || '/');
+		if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const baseName = `${folder === '/' ? '' : `${folder}/`}${name}`;
+		let path = `${baseName}.md`;
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = `${baseName} ${i}.md`;
+		}
+		return await this.app.vault.create(path, buildContent(path));
+	}
+
+	/**
+	 * Runs the golden set from the settings against the index, and through
+	 * the full chain if enabled, then writes the metrics to a report note.
+	 */
+	async evaluateRetrieval() {
+		if (!this.embeddings || !this.llm) {
+			new Notice('Please configure your model provider in settings');
+			return;
+		}
+
+		const goldenSetFile = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.evaluationGoldenSet || '/'));
+		if (!(goldenSetFile instanceof TFile)) {
+			new Notice('Set the golden set note or JSON file under "Evaluation" in the settings');
+			return;
+		}
+		if (!(await this.ensureIndexLoaded())) {
+			new Notice(this.getIndexUnavailableMessage());
+			return;
+		}
+
+		let goldenSet;
+		try {
+			goldenSet = parseGoldenSet(goldenSetFile.path, await this.app.vault.read(goldenSetFile));
+		} catch (error) {
+			console.error('Invalid golden set:', error);
+			new Notice(`Could not read the golden set ${goldenSetFile.path}. Check console for details.`);
+			return;
+		}
+		if (goldenSet.questions.length === 0) {
+			new Notice(`${goldenSetFile.path} contains no questions with expected sources, passages or answers`);
+			return;
+		}
+
+		this.updateStatusBar('Evaluating...');
+		try {
+			const report = await runEvaluation(goldenSet, {
+				search: (question) => this.searchSimilarChunks(question),
+				answer: this.settings.evaluationRunAnswers ? (question) => this.queryWithRAG(question) : undefined
+			}, this.settings.maxResults, (done, total) => this.updateStatusBar(`Evaluating... ${done}/${total}`));
+
+			const file = await this.createUniqueNote(this.settings.evaluationReportFolder,
+				`${toNoteName(goldenSet.name)} ${moment().format('YYYY-MM-DD HHmm')}`,
+				() => formatEvaluationReport(report, this.getEvaluationConfig(), goldenSetFile.path));
+			await this.app.workspace.getLeaf(true).openFile(file);
+
+			this.updateStatusBar('Ready');
+			new Notice(`Evaluation finished: recall@${report.k} ${report.recallAtK.toFixed(2)}, MRR ${report.mrr.toFixed(2)}`);
+		} catch (error) {
+			console.error('Evaluation failed:', error);
+			new Notice('Evaluation failed. Check console for details.');
+			this.updateStatusBar('Evaluation failed');
+		}
+	}
+
+	/** The settings that affect retrieval and answers, recorded in evaluation reports. */
+	getEvaluationConfig(): EvaluationConfig {
+		const settings = this.settings;
+		const config: EvaluationConfig = {
+			'Embedding model': `${settings.embeddingProvider} / ${getEmbeddingProvider(settings.embeddingProvider).getModelName(settings)}`,
+			'Chunking': settings.chunkingStrategy,
+			'Chunk size': settings.chunkSize,
+			'Chunk overlap': settings.chunkOverlap,
+			'Max results': settings.maxResults,
+			'Keyword weight': settings.keywordWeight,
+			'Similarity threshold': settings.similarityThreshold,
+			'MMR': settings.useMMR ? settings.mmrLambda : 'off',
+			'Max chunks per file': settings.maxChunksPerFile,
+			'Link expansion': settings.linkExpansionHops > 0 ? `${settings.linkExpansionHops} hops, weight ${settings.linkExpansionWeight}` : 'off'
+		};
+		if (settings.evaluationRunAnswers) {
+			config['Chat model'] = `${settings.chatProvider} / ${getChatProvider(settings.chatProvider).getModelName(settings)}`;
+			config['Answer mode'] = settings.defaultPromptMode;
+		}
+		return config;
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.appliedIndexRules = this.getIndexRulesSignature();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
-		this.initializeGemini();
+		this.initializeModels();
+		await this.updateApiServer();
+
+		const rules = this.getIndexRulesSignature();
+		if (rules !== this.appliedIndexRules) {
+			this.appliedIndexRules = rules;
+			this.schedulePurgeExcluded();
+		}
+	}
+
+	/**
+	 * Saves settings changed from the chat view, like the context options. They
+	 * don't affect the models or the index, so nothing is reloaded.
+	 */
+	async saveUiState() {
+		await this.saveData(this.settings);
 	}
 
 	async forceRefreshSettings() {
@@ -0,0 +1,42 @@
+import type { AgentStep, AgentStepStatus } from './agent/types';
+
+// Argument values longer than this are shortened in the step summary
+const ARG_PREVIEW_LENGTH = 60;
+
+const STATUS_LABELS: Record<AgentStepStatus, string> = {
+	running: 'running...',
+	done: '',
+	failed: 'failed',
+	declined: 'declined'
+};
+
+function formatArgs(args: Record<string, unknown>): string {
+	return Object.values(args)
+		.map(value => {
+			const text = (typeof value === 'string' ? value : JSON.stringify(value)).replace(/\s+/g, ' ');
+			return text.length > ARG_PREVIEW_LENGTH ? `${text.substring(0, ARG_PREVIEW_LENGTH)}…` : text;
+		})
+		.join(', ');
+}
+
+/**
+ * Shows the tool calls of an agent answer as collapsed entries with the
+ * arguments in the summary and the result inside.
+ */
+export function renderAgentSteps(container: HTMLElement, steps: AgentStep[]) {
+	container.empty();
+	container.toggle(steps.length > 0);
+
+	for (const step of steps) {
+		const details = container.createEl('details', { cls: `agent-step is-${step.status}` });
+		const summary = details.createEl('summary');
+		summary.createSpan({ cls: 'agent-step-tool', text: step.tool });
+		summary.createSpan({ cls: 'agent-step-args', text: formatArgs(step.args) });
+		if (STATUS_LABELS[step.status]) {
+			summary.createSpan({ cls: 'agent-step-status', text: STATUS_LABELS[step.status] });
+		}
+
+		if (step.thought) details.createDiv({ cls: 'agent-step-thought', text: step.thought });
+		if (step.output) details.createEl('pre', { cls: 'agent-step-output', text: step.output });
+	}
+}
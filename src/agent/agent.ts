@@ -0,0 +1,185 @@
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { DocumentChunk } from '../types';
+import { AgentModel, AgentOptions, AgentResult, AgentStep, AgentTool, AgentToolArgs } from './types';
+
+// Tool output sent back to the model, longer results are cut off
+const MAX_TOOL_OUTPUT_CHARS = 6000;
+
+const TOOL_BLOCK_PATTERN = /```(?:tool|json)\s*\n([\s\S]*?)```/;
+
+export interface ToolCall {
+	name: string;
+	args: AgentToolArgs;
+	// Text around the tool block
+	thought: string;
+}
+
+/**
+ * Finds the tool call in a reply: a fenced `tool` (or `json`) block with
+ * `{"name": ..., "args": {...}}`. Returns null for replies without one,
+ * which are the final answer. Throws for a block that can't be parsed.
+ */
+export function parseToolCall(reply: string): ToolCall | null {
+	const match = TOOL_BLOCK_PATTERN.exec(reply);
+	if (!match) return null;
+
+	let data: unknown;
+	try {
+		data = JSON.parse(match[1]);
+	} catch (error) {
+		throw new Error(`The tool call is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	const call = data as { name?: unknown; tool?: unknown; args?: unknown; arguments?: unknown };
+	const name = call?.name ?? call?.tool;
+	if (typeof name !== 'string') {
+		// A JSON block without a tool name is part of an answer
+		return null;
+	}
+	const args = call.args ?? call.arguments ?? {};
+	return {
+		name,
+		args: typeof args === 'object' && args !== null && !Array.isArray(args) ? args as AgentToolArgs : {},
+		thought: reply.replace(match[0], '').trim()
+	};
+}
+
+export function formatToolList(tools: AgentTool[]): string {
+	return tools.map(tool => {
+		const parameters = Object.keys(tool.parameters).join(', ');
+		const details = Object.entries(tool.parameters).map(([name, description]) => `    ${name}: ${description}`);
+		const approval = tool.describeAction ? ' The user has to approve it.' : '';
+		return [`- ${tool.name}(${parameters}): ${tool.description}${approval}`, ...details].join('\n');
+	}).join('\n');
+}
+
+export function buildAgentSystemPrompt(tools: AgentTool[], date: string): string {
+	return `You are an assistant working in the user's Obsidian vault. Use the tools to find and read notes before answering.
+
+To use a tool, reply with only a fenced block like this, then wait for the result:
+\`\`\`tool
+{"name": "semantic_search", "args": {"query": "project deadlines"}}
+\`\`\`
+
+Use one tool per reply. Parameters ending in "?" are optional, leave out the "?" when you pass them. Search results and notes are numbered; cite them in your answer with their numbers in square brackets, e.g. [1] or [2, 3].
+
+When you have enough information, reply with the final answer in Markdown, without a tool block. Only use facts from the tool results and say so when the notes don't contain the answer.
+
+Tools:
+${formatToolList(tools)}
+
+Today is ${date}.`;
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_TOOL_OUTPUT_CHARS ? `${text.substring(0, MAX_TOOL_OUTPUT_CHARS)}\n... (cut off)` : text;
+}
+
+/** Adds sources to the numbered list, reusing the number of a passage seen before. */
+function numberSources(sources: DocumentChunk[], added: DocumentChunk[]): string {
+	return added.map(source => {
+		let index = sources.findIndex(existing => existing.filePath === source.filePath && existing.content === source.content);
+		if (index === -1) {
+			sources.push(source);
+			index = sources.length - 1;
+		}
+		const section = source.headingPath && source.headingPath.length > 0 ? ` > ${source.headingPath.join(' > ')}` : '';
+		return `[${index + 1}] ${source.filePath}${section}\n${source.content}`;
+	}).join('\n\n');
+}
+
+/** A model reply as the final answer, dropping a tool block it may still contain. */
+function toAnswer(reply: string): string {
+	return reply.replace(TOOL_BLOCK_PATTERN, '').trim();
+}
+
+/**
+ * Lets the model call tools until it answers or runs out of steps. Each
+ * reply is either one tool call, whose result is sent back, or the final
+ * answer. After maxSteps tool calls the model is asked to answer with what
+ * it has. Stopping through the signal returns what was done so far.
+ */
+export async function runAgent(model: AgentModel, tools: AgentTool[], question: string, options: AgentOptions): Promise<AgentResult> {
+	const { signal } = options;
+	const steps: AgentStep[] = [];
+	const sources: DocumentChunk[] = [];
+	const messages: BaseMessage[] = [
+		new SystemMessage(buildAgentSystemPrompt(tools, options.date ?? new Date().toISOString().substring(0, 10))),
+		...(options.history ?? []),
+		new HumanMessage(question)
+	];
+	const stopped = (): AgentResult => ({ answer: '', steps, sources, stopped: true });
+
+	try {
+		for (;;) {
+			if (signal?.aborted) return stopped();
+			const reply = await model(messages, signal);
+			messages.push(new AIMessage(reply));
+
+			let call: ToolCall | null;
+			let parseError = '';
+			try {
+				call = parseToolCall(reply);
+			} catch (error) {
+				// Counts as a step, so a model that keeps sending broken blocks still ends
+				call = { name: 'invalid_tool_call', args: {}, thought: '' };
+				parseError = error instanceof Error ? error.message : String(error);
+			}
+			if (!call) return { answer: reply.trim(), steps, sources, stopped: false };
+
+			if (steps.length >= options.maxSteps) {
+				// Out of steps, one more reply without tools
+				messages.push(new HumanMessage('You have used all tool calls. Answer now with the information you have, without a tool block.'));
+				if (signal?.aborted) return stopped();
+				const answer = toAnswer(await model(messages, signal));
+				return { answer: answer || 'I could not finish within the allowed number of steps.', steps, sources, stopped: false };
+			}
+
+			const step: AgentStep = { tool: call.name, args: call.args, thought: call.thought || undefined, status: 'running', output: '' };
+			steps.push(step);
+			options.onStep?.(step);
+
+			const tool = tools.find(tool => tool.name === call?.name);
+			if (parseError) {
+				step.status = 'failed';
+				step.output = `${parseError}. Reply with a valid tool block or the final answer.`;
+			} else if (!tool) {
+				step.status = 'failed';
+				step.output = `Unknown tool "${call.name}". Available tools: ${tools.map(tool => tool.name).join(', ')}.`;
+			} else {
+				try {
+					// Unapproved changes are declined, also when there is no one to ask
+					if (tool.describeAction && !(await options.confirm?.(tool, tool.describeAction(call.args)))) {
+						step.status = 'declined';
+						step.output = 'The user declined this action. Do not try it again; continue without it.';
+					} else {
+						const result = await tool.run(call.args, signal);
+						const passages = result.sources && result.sources.length > 0 ? numberSources(sources, result.sources) : '';
+						step.output = truncate([result.text, passages].filter(part => part).join('\n\n') || '(no results)');
+						step.status = 'done';
+					}
+				} catch (error) {
+					if (signal?.aborted) return stopped();
+					step.status = 'failed';
+					step.output = `Error: ${error instanceof Error ? error.message : String(error)}`;
+				}
+			}
+
+			options.onStep?.(step);
+			messages.push(new HumanMessage(`Result of ${step.tool}:\n${step.output}`));
+		}
+	} catch (error) {
+		if (signal?.aborted) return stopped();
+		throw error;
+	}
+}
+
+/** Uses a LangChain chat model for the agent, without native tool calling. */
+export function fromChatModel(llm: BaseChatModel): AgentModel {
+	return async (messages, signal) => {
+		const reply = await llm.invoke(messages, { signal });
+		return typeof reply.content === 'string'
+			? reply.content
+			: reply.content.map(part => ('text' in part ? part.text : '')).join('');
+	};
+}
@@ -0,0 +1,25 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import type { AgentModel } from './types';
+
+export type ScriptedReply = string | ((messages: BaseMessage[]) => string);
+
+export interface ScriptedModel extends AgentModel {
+	// The conversation of every call, to check what the loop sent
+	calls: BaseMessage[][];
+}
+
+/**
+ * A fake model that returns the given replies in order, for running the
+ * agent loop without a provider. A reply can be a function of the messages
+ * so far, e.g. to answer from a tool result. Throws when it runs out.
+ */
+export function createScriptedModel(replies: ScriptedReply[]): ScriptedModel {
+	const calls: BaseMessage[][] = [];
+	const model = async (messages: BaseMessage[]) => {
+		calls.push([...messages]);
+		const reply = replies[calls.length - 1];
+		if (reply === undefined) throw new Error(`The script has no reply for call ${calls.length}`);
+		return typeof reply === 'function' ? reply(messages) : reply;
+	};
+	return Object.assign(model, { calls });
+}
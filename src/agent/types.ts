@@ -0,0 +1,56 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import type { DocumentChunk } from '../types';
+
+/** Sends the conversation so far and returns the model's reply text. */
+export type AgentModel = (messages: BaseMessage[], signal?: AbortSignal) => Promise<string>;
+
+export type AgentToolArgs = Record<string, unknown>;
+
+export interface AgentToolResult {
+	text?: string;
+	// Passages the answer may cite, numbered by the agent loop
+	sources?: DocumentChunk[];
+}
+
+export interface AgentTool {
+	name: string;
+	description: string;
+	// Parameter name to description, optional ones end with '?'
+	parameters: Record<string, string>;
+	// Tools that change the vault describe the change and wait for the user's approval
+	describeAction?: (args: AgentToolArgs) => string;
+	run(args: AgentToolArgs, signal?: AbortSignal): Promise<AgentToolResult>;
+}
+
+export type AgentStepStatus = 'running' | 'done' | 'failed' | 'declined';
+
+export interface AgentStep {
+	tool: string;
+	args: AgentToolArgs;
+	// Text the model wrote before the tool call
+	thought?: string;
+	status: AgentStepStatus;
+	// What the model got back, as sent
+	output: string;
+}
+
+export interface AgentOptions {
+	// Earlier chat messages, already limited to the history budget
+	history?: BaseMessage[];
+	// Tool calls before the model has to answer
+	maxSteps: number;
+	// Asks the user to approve a change; declined actions are reported to the model
+	confirm?: (tool: AgentTool, description: string) => Promise<boolean>;
+	// Called when a step starts and again when it finishes
+	onStep?: (step: AgentStep) => void;
+	signal?: AbortSignal;
+	date?: string;
+}
+
+export interface AgentResult {
+	answer: string;
+	steps: AgentStep[];
+	// Every passage returned by the tools, numbered as cited in the answer
+	sources: DocumentChunk[];
+	stopped: boolean;
+}
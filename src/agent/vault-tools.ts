@@ -0,0 +1,189 @@
+import { TFile, TFolder, normalizePath } from 'obsidian';
+import type { DocumentChunk } from '../types';
+import { RetrievalFilter, emptyFilter, mergeFilters } from '../query-filter';
+import { AgentTool, AgentToolArgs } from './types';
+import type GeminiRAGPlugin from '../../main';
+
+// Entries listed per folder, the model can list subfolders for more
+const MAX_FOLDER_ENTRIES = 200;
+// Characters of a note shown in the approval dialog
+const PREVIEW_LENGTH = 300;
+
+function stringArg(args: AgentToolArgs, name: string, required = true): string {
+	const value = args[name];
+	if (typeof value === 'string' && value.trim()) return value.trim();
+	if (required) throw new Error(`"${name}" is required`);
+	return '';
+}
+
+function preview(text: string): string {
+	return text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}…` : text;
+}
+
+/** Path of a note to create: normalized, inside the vault, ending in .md. */
+function toNotePath(path: string): string {
+	const normalized = normalizePath(path.replace(/^\/+/, ''));
+	if (normalized.split('/').includes('..')) throw new Error('The path must stay inside the vault');
+	return normalized.endsWith('.md') ? normalized : `${normalized}.md`;
+}
+
+/**
+ * The tools of agent mode: searching, reading and listing notes, and, with
+ * the user's approval, creating and appending to notes. Notes excluded from
+ * the index are hidden from the agent as well. The chat's filter applies to
+ * both searches.
+ */
+export function createVaultTools(plugin: GeminiRAGPlugin, filter: RetrievalFilter = emptyFilter()): AgentTool[] {
+	const { app } = plugin;
+
+	const searchFilter = (args: AgentToolArgs): RetrievalFilter => {
+		const folder = stringArg(args, 'folder', false);
+		const tag = stringArg(args, 'tag', false);
+		return mergeFilters(filter, { folders: folder ? [folder] : [], tags: tag ? [tag] : [] });
+	};
+
+	/** Finds a note by path, path without .md or link text. */
+	const findNote = (path: string): TFile => {
+		const file = app.vault.getAbstractFileByPath(normalizePath(path))
+			?? app.vault.getAbstractFileByPath(`${normalizePath(path)}.md`)
+			?? app.metadataCache.getFirstLinkpathDest(path.replace(/^\[\[|\]\]$/g, ''), '');
+		if (!(file instanceof TFile) || file.extension !== 'md' || plugin.isExcludedByRules(file)) {
+			throw new Error(`No note found at "${path}"`);
+		}
+		return file;
+	};
+
+	const isVisible = (file: TFile) => file.extension !== 'md' || !plugin.isExcludedByRules(file);
+
+	return [
+		{
+			name: 'semantic_search',
+			description: 'Finds passages about a topic, also when they use other words.',
+			parameters: {
+				query: 'what to look for',
+				'folder?': 'only notes in this folder',
+				'tag?': 'only notes with this tag'
+			},
+			async run(args) {
+				const sources = await plugin.searchSimilarChunks(stringArg(args, 'query'), searchFilter(args));
+				return sources.length > 0 ? { sources } : { text: 'No matching passages.' };
+			}
+		},
+		{
+			name: 'keyword_search',
+			description: 'Finds passages containing the exact words, for names, codes and rare terms.',
+			parameters: {
+				query: 'words to look for',
+				'folder?': 'only notes in this folder',
+				'tag?': 'only notes with this tag'
+			},
+			async run(args) {
+				const sources = await plugin.searchKeywordChunks(stringArg(args, 'query'), searchFilter(args));
+				return sources.length > 0 ? { sources } : { text: 'No passages contain these words.' };
+			}
+		},
+		{
+			name: 'read_note',
+			description: 'Returns the full text of a note.',
+			parameters: {
+				path: 'note path or name'
+			},
+			async run(args) {
+				const file = findNote(stringArg(args, 'path'));
+				const source: DocumentChunk = {
+					content: await app.vault.cachedRead(file),
+					filePath: file.path,
+					fileName: file.name,
+					origin: 'note'
+				};
+				return { sources: [source] };
+			}
+		},
+		{
+			name: 'list_folder',
+			description: 'Lists the notes and subfolders of a folder.',
+			parameters: {
+				'path?': 'folder path, the vault root when left out'
+			},
+			async run(args) {
+				const path = stringArg(args, 'path', false).replace(/^\/+|\/+$/g, '');
+				const folder = path ? app.vault.getAbstractFileByPath(normalizePath(path)) : app.vault.getRoot();
+				if (!(folder instanceof TFolder)) throw new Error(`No folder found at "${path}"`);
+
+				const entries = folder.children
+					.filter(child => child instanceof TFolder || (child instanceof TFile && isVisible(child)))
+					.map(child => child instanceof TFolder ? `${child.path}/` : child.path)
+					.sort();
+				if (entries.length === 0) return { text: 'The folder is empty.' };
+				const more = entries.length > MAX_FOLDER_ENTRIES ? `\n... and ${entries.length - MAX_FOLDER_ENTRIES} more` : '';
+				return { text: entries.slice(0, MAX_FOLDER_ENTRIES).join('\n') + more };
+			}
+		},
+		{
+			name: 'get_backlinks',
+			description: 'Lists the notes linking to a note, and the notes it links to.',
+			parameters: {
+				path: 'note path or name'
+			},
+			async run(args) {
+				const file = findNote(stringArg(args, 'path'));
+				const resolvedLinks = app.metadataCache.resolvedLinks;
+				const outgoing = new Set(Object.keys(resolvedLinks[file.path] ?? {}));
+				const visible = (path: string) => {
+					const linked = app.vault.getAbstractFileByPath(path);
+					return linked instanceof TFile && isVisible(linked);
+				};
+
+				const incoming = Object.keys(resolvedLinks)
+					.filter(path => path !== file.path && resolvedLinks[path][file.path] && visible(path));
+				const links = Array.from(outgoing).filter(path => path !== file.path && visible(path));
+				return {
+					text: [
+						`Linking to ${file.path}:`,
+						incoming.length > 0 ? incoming.join('\n') : '(none)',
+						'',
+						`Linked from ${file.path}:`,
+						links.length > 0 ? links.join('\n') : '(none)'
+					].join('\n')
+				};
+			}
+		},
+		{
+			name: 'create_note',
+			description: 'Creates a new note. Fails if the note exists.',
+			parameters: {
+				path: 'path of the new note, e.g. "Projects/Summary.md"',
+				content: 'Markdown content'
+			},
+			describeAction(args) {
+				return `Create "${toNotePath(stringArg(args, 'path'))}" with this content?\n\n${preview(stringArg(args, 'content'))}`;
+			},
+			async run(args) {
+				const path = toNotePath(stringArg(args, 'path'));
+				if (app.vault.getAbstractFileByPath(path)) throw new Error(`"${path}" already exists, use append_to_note instead`);
+
+				const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+				if (folder && !app.vault.getAbstractFileByPath(folder)) await app.vault.createFolder(folder);
+				const file = await app.vault.create(path, stringArg(args, 'content'));
+				return { text: `Created ${file.path}` };
+			}
+		},
+		{
+			name: 'append_to_note',
+			description: 'Adds text to the end of an existing note.',
+			parameters: {
+				path: 'note path or name',
+				content: 'Markdown to add'
+			},
+			describeAction(args) {
+				return `Append to "${findNote(stringArg(args, 'path')).path}"?\n\n${preview(stringArg(args, 'content'))}`;
+			},
+			async run(args) {
+				const file = findNote(stringArg(args, 'path'));
+				const content = stringArg(args, 'content');
+				await app.vault.process(file, data => `${data.replace(/\s+$/, '')}\n\n${content}\n`);
+				return { text: `Appended to ${file.path}` };
+			}
+		}
+	];
+}
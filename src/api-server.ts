@@ -0,0 +1,261 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { RetrievalFilter } from './query-filter';
+import type { ApiAskOptions, GeminiRAGApi } from './api';
+
+// Request bodies are questions and filters, anything larger is a mistake
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** A random token for the Authorization header. */
+export function generateApiToken(): string {
+	return randomBytes(24).toString('hex');
+}
+
+class RequestError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.status = status;
+	}
+}
+
+function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new RequestError(413, 'Request body too large'));
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on('end', () => {
+			const text = Buffer.concat(chunks).toString('utf-8').trim();
+			if (!text) return resolve({});
+			try {
+				const body = JSON.parse(text);
+				if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+					reject(new RequestError(400, 'The request body must be a JSON object'));
+				} else {
+					resolve(body);
+				}
+			} catch (error) {
+				reject(new RequestError(400, 'The request body is not valid JSON'));
+			}
+		});
+		req.on('error', reject);
+	});
+}
+
+function stringList(value: unknown, name: string): string[] {
+	if (value === undefined) return [];
+	if (typeof value === 'string') return [value];
+	if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+	throw new RequestError(400, `"${name}" must be a string or a list of strings`);
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string') throw new RequestError(400, `"${name}" must be a string`);
+	return value;
+}
+
+function requiredString(value: unknown, name: string): string {
+	const text = optionalString(value, name);
+	if (!text?.trim()) throw new RequestError(400, `"${name}" is required`);
+	return text;
+}
+
+/** The filter of a request, with the same fields as the filter bar. */
+function parseFilter(value: unknown): Partial<RetrievalFilter> | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'object' || Array.isArray(value)) throw new RequestError(400, '"filter" must be an object');
+	const filter = value as Record<string, unknown>;
+	const dates = ['after', 'before'].map(key => {
+		const date = optionalString(filter[key], `filter.${key}`);
+		if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new RequestError(400, `"filter.${key}" must be a date like 2025-01-31`);
+		return date;
+	});
+	return {
+		folders: stringList(filter.folders, 'filter.folders'),
+		tags: stringList(filter.tags, 'filter.tags'),
+		after: dates[0],
+		before: dates[1]
+	};
+}
+
+function parseAskOptions(body: Record<string, unknown>): ApiAskOptions {
+	const history = body.history;
+	if (history !== undefined && !(Array.isArray(history) && history.every(message =>
+		(message?.role === 'user' || message?.role === 'assistant') && typeof message?.content === 'string'))) {
+		throw new RequestError(400, '"history" must be a list of { role: "user" | "assistant", content }');
+	}
+
+	const context = body.context as Record<string, unknown> | undefined;
+	if (context !== undefined && (typeof context !== 'object' || context === null)) {
+		throw new RequestError(400, '"context" must be an object');
+	}
+
+	return {
+		filter: parseFilter(body.filter),
+		mode: optionalString(body.mode, 'mode'),
+		history,
+		context: context && {
+			activeNote: context.activeNote === true,
+			linkedNotes: context.linkedNotes === true,
+			pinned: stringList(context.pinned, 'context.pinned')
+		}
+	};
+}
+
+/**
+ * JSON-over-HTTP access to the plugin API for scripts and command-line
+ * tools. Listens on localhost only, and every request must send the token
+ * as `Authorization: Bearer <token>`. No CORS headers are sent, so web pages
+ * can't read the responses.
+ */
+export class ApiServer {
+	api: GeminiRAGApi;
+	token: string;
+	server: Server | null = null;
+	port = 0;
+
+	constructor(api: GeminiRAGApi) {
+		this.api = api;
+	}
+
+	isRunning(): boolean {
+		return this.server !== null;
+	}
+
+	async start(port: number, token: string): Promise<void> {
+		await this.stop();
+		this.token = token;
+
+		const server = createServer((req, res) => this.handle(req, res));
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(port, '127.0.0.1', () => {
+				server.off('error', reject);
+				resolve();
+			});
+		});
+		this.server = server;
+		this.port = port;
+	}
+
+	async stop(): Promise<void> {
+		const server = this.server;
+		if (!server) return;
+		this.server = null;
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	}
+
+	isAuthorized(req: IncomingMessage): boolean {
+		const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+		if (!match || !this.token) return false;
+		const given = Buffer.from(match[1].trim());
+		const expected = Buffer.from(this.token);
+		return given.length === expected.length && timingSafeEqual(given, expected);
+	}
+
+	async handle(req: IncomingMessage, res: ServerResponse) {
+		try {
+			if (!this.isAuthorized(req)) throw new RequestError(401, 'Missing or invalid token');
+
+			const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+			const route = `${req.method} ${path}`;
+			switch (route) {
+				case 'GET /status':
+					return this.sendJson(res, 200, this.api.getStatus());
+				case 'POST /search':
+					return await this.search(res, await readBody(req));
+				case 'POST /ask':
+					return await this.ask(req, res, await readBody(req));
+				case 'POST /reindex':
+					return await this.reindex(res, await readBody(req));
+			}
+			if (['/status', '/search', '/ask', '/reindex'].includes(path)) {
+				throw new RequestError(405, `${req.method} is not supported for ${path}`);
+			}
+			throw new RequestError(404, `Unknown endpoint ${path}`);
+		} catch (error) {
+			this.sendError(res, error);
+		}
+	}
+
+	async search(res: ServerResponse, body: Record<string, unknown>) {
+		const query = requiredString(body.query, 'query');
+		const limit = body.limit;
+		if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+			throw new RequestError(400, '"limit" must be a positive integer');
+		}
+		const results = await this.unavailableAs503(() => this.api.search(query, { filter: parseFilter(body.filter), limit }));
+		this.sendJson(res, 200, { results });
+	}
+
+	/**
+	 * Answers in one JSON response, or with `stream: true` as newline-delimited
+	 * JSON events: the sources, the answer tokens and a final `done` event.
+	 * Closing the connection stops the answer.
+	 */
+	async ask(req: IncomingMessage, res: ServerResponse, body: Record<string, unknown>) {
+		const question = requiredString(body.question, 'question');
+		const options = parseAskOptions(body);
+
+		if (body.stream !== true) {
+			const result = await this.unavailableAs503(() => this.api.ask(question, options));
+			return this.sendJson(res, 200, result);
+		}
+
+		const controller = new AbortController();
+		res.on('close', () => controller.abort());
+		const events = this.api.askStream(question, { ...options, signal: controller.signal });
+		// Errors before the first event still get a status code
+		const first = await this.unavailableAs503(() => events.next());
+
+		res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+		try {
+			if (!first.done) res.write(JSON.stringify(first.value) + '\n');
+			for await (const event of events) {
+				res.write(JSON.stringify(event) + '\n');
+			}
+			res.end(JSON.stringify({ type: 'done' }) + '\n');
+		} catch (error) {
+			res.end(JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : String(error) }) + '\n');
+		}
+	}
+
+	async reindex(res: ServerResponse, body: Record<string, unknown>) {
+		const result = await this.unavailableAs503(() => this.api.reindex({ full: body.full === true }));
+		this.sendJson(res, result.kind === 'rebuild' ? 202 : 200, result);
+	}
+
+	/** Errors of the API mean the index or the models can't be used right now. */
+	async unavailableAs503<T>(run: () => Promise<T>): Promise<T> {
+		try {
+			return await run();
+		} catch (error) {
+			throw new RequestError(503, error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	sendJson(res: ServerResponse, status: number, data: unknown) {
+		res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+		res.end(JSON.stringify(data));
+	}
+
+	sendError(res: ServerResponse, error: unknown) {
+		const status = error instanceof RequestError ? error.status : 500;
+		if (status === 500) console.error('Local API request failed:', error);
+		if (res.headersSent) {
+			res.end();
+			return;
+		}
+		this.sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+	}
+}
@@ -0,0 +1,147 @@
+import type { ChatMessage, DocumentChunk, RAGResult, RAGStreamEvent } from './types';
+import type { NoteContextOptions } from './note-context';
+import type { BuildProgress } from './index-builder';
+import { RetrievalFilter, mergeFilters } from './query-filter';
+import { getChatProvider, getEmbeddingProvider } from './providers';
+import type GeminiRAGPlugin from '../main';
+
+export const API_VERSION = 1;
+
+export interface ApiSearchOptions {
+	// Same as the filter bar; inline filters in the query are applied as well
+	filter?: Partial<RetrievalFilter>;
+	// At most the "Max Results" setting
+	limit?: number;
+}
+
+export interface ApiAskOptions {
+	filter?: Partial<RetrievalFilter>;
+	// Answer mode id, the default mode from the settings when not given
+	mode?: string;
+	// Earlier turns of the conversation, oldest first
+	history?: Pick<ChatMessage, 'role' | 'content'>[];
+	// Active, linked and pinned notes, as in the chat context bar
+	context?: Partial<NoteContextOptions>;
+	signal?: AbortSignal;
+}
+
+export interface ApiReindexResult {
+	// 'update' finished with the counts below, 'rebuild' was started
+	kind: 'update' | 'rebuild';
+	updated?: number;
+	removed?: number;
+}
+
+export interface ApiStatus {
+	version: number;
+	// Search and ask can be used
+	ready: boolean;
+	// Why search and ask can't be used, when not ready
+	message?: string;
+	indexing: boolean;
+	// Progress of a running full rebuild
+	build?: BuildProgress;
+	chunks: number;
+	files: number;
+	embeddingModel: string;
+	chatModel: string;
+	// Settings that changed since the index was built, see the index mismatch prompt
+	mismatches: string[];
+}
+
+/**
+ * Functions of the plugin for other plugins, scripts and the local HTTP API,
+ * available as `app.plugins.plugins['llm-rag-chat'].api`.
+ */
+export interface GeminiRAGApi {
+	readonly version: number;
+	search(query: string, options?: ApiSearchOptions): Promise<DocumentChunk[]>;
+	ask(question: string, options?: ApiAskOptions): Promise<RAGResult>;
+	// Yields the sources once, then the answer text as it is generated
+	askStream(question: string, options?: ApiAskOptions): AsyncGenerator<RAGStreamEvent>;
+	// Re-indexes changed files, or starts a full rebuild with `full`
+	reindex(options?: { full?: boolean }): Promise<ApiReindexResult>;
+	getStatus(): ApiStatus;
+}
+
+function toFilter(filter: Partial<RetrievalFilter> | undefined): RetrievalFilter {
+	return mergeFilters({ folders: filter?.folders ?? [], tags: filter?.tags ?? [], after: filter?.after, before: filter?.before });
+}
+
+export function createApi(plugin: GeminiRAGPlugin): GeminiRAGApi {
+	const getUnavailableMessage = (): string | null => {
+		if (!plugin.embeddings || !plugin.llm) return 'The model provider is not configured';
+		if (!plugin.indexHeader || plugin.hasIncompatibleIndex()) return plugin.getIndexUnavailableMessage();
+		return null;
+	};
+
+	const assertReady = () => {
+		const message = getUnavailableMessage();
+		if (message) throw new Error(message);
+	};
+
+	const toQueryOptions = (options: ApiAskOptions) => ({
+		filter: toFilter(options.filter),
+		mode: options.mode,
+		history: options.history?.map(message => ({ role: message.role, content: message.content, timestamp: 0 })),
+		context: options.context && {
+			activeNote: options.context.activeNote ?? false,
+			linkedNotes: options.context.linkedNotes ?? false,
+			pinned: options.context.pinned ?? []
+		},
+		signal: options.signal
+	});
+
+	return {
+		version: API_VERSION,
+
+		async search(query, options = {}) {
+			assertReady();
+			const results = await plugin.searchSimilarChunks(query, toFilter(options.filter));
+			return options.limit && options.limit > 0 ? results.slice(0, options.limit) : results;
+		},
+
+		async ask(question, options = {}) {
+			assertReady();
+			return await plugin.queryWithRAG(question, toQueryOptions(options));
+		},
+
+		async *askStream(question, options = {}) {
+			assertReady();
+			yield* plugin.streamQueryWithRAG(question, toQueryOptions(options));
+		},
+
+		async reindex(options = {}) {
+			if (!plugin.embeddings || !plugin.llm) throw new Error('The model provider is not configured');
+			if (plugin.isIndexing) throw new Error('Embeddings are already being updated');
+
+			if (options.full) {
+				// Runs in the background, its progress is in the status
+				plugin.rebuildEmbeddings();
+				return { kind: 'rebuild' };
+			}
+			if (plugin.indexMismatches.length > 0) {
+				throw new Error('The index was built with different settings and needs a full rebuild');
+			}
+			return { kind: 'update', ...(await plugin.updateIndex()) };
+		},
+
+		getStatus() {
+			const settings = plugin.settings;
+			const message = getUnavailableMessage();
+			const builder = plugin.indexBuilder;
+			return {
+				version: API_VERSION,
+				ready: message === null,
+				message: message ?? undefined,
+				indexing: plugin.isIndexing,
+				build: builder?.isRunning() ? builder.getProgress() : undefined,
+				chunks: plugin.getTotalChunks(),
+				files: plugin.indexManifest.size(),
+				embeddingModel: `${settings.embeddingProvider} / ${getEmbeddingProvider(settings.embeddingProvider).getModelName(settings)}`,
+				chatModel: `${settings.chatProvider} / ${getChatProvider(settings.chatProvider).getModelName(settings)}`,
+				mismatches: plugin.indexMismatches.map(mismatch => `${mismatch.setting}: ${mismatch.indexed} → ${mismatch.current}`)
+			};
+		}
+	};
+}
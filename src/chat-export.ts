@@ -0,0 +1,46 @@
+import type { ChatSession } from './chat-sessions';
+import type { DocumentChunk } from './types';
+
+function formatTimestamp(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Characters that are not allowed in note names are replaced, so session
+ * names can be used as file names.
+ */
+export function toNoteName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim() || 'Chat';
+}
+
+/**
+ * Renders a chat session as a note. Each message gets a heading with its
+ * timestamp; assistant answers are followed by their numbered sources, so
+ * the [n] citations in the text still line up.
+ */
+export function formatSessionAsMarkdown(session: ChatSession, formatSource: (source: DocumentChunk) => string): string {
+	const lines: string[] = [
+		'---',
+		`created: ${new Date(session.createdAt).toISOString()}`,
+		`exported: ${new Date().toISOString()}`,
+		'---',
+		'',
+		`# ${session.name}`,
+		''
+	];
+
+	for (const message of session.messages) {
+		lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'} · ${formatTimestamp(message.timestamp)}`, '');
+		lines.push(message.content.trim(), '');
+
+		if (message.sources && message.sources.length > 0) {
+			lines.push('**Sources**', '');
+			message.sources.forEach((source, index) => lines.push(`${index + 1}. ${formatSource(source)}`));
+			lines.push('');
+		}
+	}
+
+	return lines.join('\n');
+}
@@ -0,0 +1,43 @@
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { ChatMessage } from './types';
+
+// Rough estimate that works well enough for budgeting; no tokenizer is bundled
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Picks the most recent turns of a conversation that fit into the token budget.
+ * A turn is a user message together with the assistant reply that followed it.
+ */
+export function selectRecentHistory(history: ChatMessage[], maxTurns: number, tokenBudget: number): ChatMessage[] {
+	if (maxTurns <= 0 || tokenBudget <= 0) return [];
+
+	const selected: ChatMessage[] = [];
+	let turns = 0;
+	let tokens = 0;
+
+	for (let i = history.length - 1; i >= 0; i--) {
+		const message = history[i];
+		const messageTokens = estimateTokens(message.content);
+		if (tokens + messageTokens > tokenBudget) break;
+
+		selected.unshift(message);
+		tokens += messageTokens;
+
+		if (message.role === 'user' && ++turns >= maxTurns) break;
+	}
+
+	// Never start the history with a dangling assistant reply
+	while (selected.length > 0 && selected[0].role === 'assistant') {
+		selected.shift();
+	}
+
+	return selected;
+}
+
+export function toLangChainMessages(history: ChatMessage[]): BaseMessage[] {
+	return history.map(message => message.role === 'user'
+		? new HumanMessage(message.content)
+		: new AIMessage(message.content));
+}
@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import { ChatMessage } from './types';
+
+export interface ChatSession {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	messages: ChatMessage[];
+}
+
+interface ChatSessionData {
+	version: number;
+	activeId: string | null;
+	sessions: ChatSession[];
+}
+
+const SESSIONS_VERSION = 1;
+export const DEFAULT_SESSION_NAME = 'New chat';
+// Length of names generated from the first question
+const AUTO_NAME_LENGTH = 50;
+
+function createSessionId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Named chat sessions, stored in their own file in the plugin folder so the
+ * settings in data.json stay small.
+ */
+export class ChatSessionStore {
+	sessions: ChatSession[] = [];
+	activeId: string | null = null;
+	filePath: string;
+
+	constructor(filePath: string) {
+		this.filePath = filePath;
+	}
+
+	get(id: string): ChatSession | undefined {
+		return this.sessions.find(session => session.id === id);
+	}
+
+	/** The session shown in the chat view, created if there is none. */
+	getActive(): ChatSession {
+		const active = this.activeId ? this.get(this.activeId) : undefined;
+		if (active) return active;
+		const latest = this.list()[0];
+		if (latest) {
+			this.activeId = latest.id;
+			return latest;
+		}
+		return this.create();
+	}
+
+	setActive(id: string) {
+		if (this.get(id)) this.activeId = id;
+	}
+
+	create(name = DEFAULT_SESSION_NAME, messages: ChatMessage[] = []): ChatSession {
+		const now = Date.now();
+		const session: ChatSession = {
+			id: createSessionId(),
+			name,
+			createdAt: messages[0]?.timestamp ?? now,
+			updatedAt: messages[messages.length - 1]?.timestamp ?? now,
+			messages
+		};
+		this.sessions.push(session);
+		this.activeId = session.id;
+		return session;
+	}
+
+	rename(id: string, name: string) {
+		const session = this.get(id);
+		if (session && name.trim()) session.name = name.trim();
+	}
+
+	/** Deletes a session. The most recent remaining one becomes active. */
+	delete(id: string) {
+		this.sessions = this.sessions.filter(session => session.id !== id);
+		if (this.activeId === id) {
+			this.activeId = this.list()[0]?.id ?? null;
+		}
+	}
+
+	/**
+	 * Marks a session as changed after messages were added. Unnamed sessions
+	 * are named after their first question.
+	 */
+	touch(session: ChatSession) {
+		session.updatedAt = Date.now();
+		if (session.name === DEFAULT_SESSION_NAME) {
+			const firstQuestion = session.messages.find(message => message.role === 'user');
+			if (firstQuestion) {
+				const name = firstQuestion.content.replace(/\s+/g, ' ').trim();
+				session.name = name.length > AUTO_NAME_LENGTH ? `${name.substring(0, AUTO_NAME_LENGTH - 1)}…` : name;
+			}
+		}
+	}
+
+	/** All sessions, most recently used first. */
+	list(): ChatSession[] {
+		return [...this.sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	/** Sessions whose name or messages contain the query, most recent first. */
+	search(query: string): ChatSession[] {
+		const needle = query.trim().toLowerCase();
+		if (!needle) return this.list();
+		return this.list().filter(session =>
+			session.name.toLowerCase().includes(needle)
+			|| session.messages.some(message => message.content.toLowerCase().includes(needle)));
+	}
+
+	async load(): Promise<boolean> {
+		try {
+			const data: ChatSessionData = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+			if (data.version !== SESSIONS_VERSION || !Array.isArray(data.sessions)) return false;
+			this.sessions = data.sessions;
+			this.activeId = data.activeId;
+			return true;
+		} catch (error) {
+			this.sessions = [];
+			this.activeId = null;
+			return false;
+		}
+	}
+
+	async save() {
+		const data: ChatSessionData = {
+			version: SESSIONS_VERSION,
+			activeId: this.activeId,
+			sessions: this.sessions
+		};
+		try {
+			await fs.writeFile(this.filePath, JSON.stringify(data));
+		} catch (error) {
+			console.error('Error saving chat sessions:', error);
+		}
+	}
+}
@@ -1,14 +1,34 @@
 import { ItemView, WorkspaceLeaf, MarkdownRenderer } from 'obsidian';
 import { CHAT_VIEW_TYPE, ChatMessage } from './types';
+import { MarkdownStream } from './markdown-stream';
+import { formatChunkLocation, formatSourceDetail, linkCitations, openChunkLocation } from './citations';
+import { FilterBar } from './filter-bar';
+import { ContextBar } from './context-bar';
+import { ChatSession } from './chat-sessions';
+import { ConfirmModal } from './confirm-modal';
+import { ModePicker } from './mode-picker';
+import { renderAgentSteps } from './agent-steps';
+import { getChatProvider } from './providers';
 import type GeminiRAGPlugin from '../main';
 
 export class ChatView extends ItemView {
 	plugin: GeminiRAGPlugin;
-	chatHistory: ChatMessage[] = [];
+	session: ChatSession;
+	sessionTitleEl: HTMLElement;
+	sessionPanel: HTMLElement;
+	sessionSearchInput: HTMLInputElement;
+	sessionListEl: HTMLElement;
 	messageInput: HTMLInputElement;
 	chatContainer: HTMLElement;
 	inputContainer: HTMLElement;
+	filterBar: FilterBar;
+	contextBar: ContextBar;
+	modePicker: ModePicker;
+	agentButton: HTMLButtonElement;
+	sendButton: HTMLButtonElement;
+	stopButton: HTMLButtonElement;
 	isProcessing: boolean = false;
+	abortController: AbortController | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: GeminiRAGPlugin) {
 		super(leaf);
@@ -34,29 +54,62 @@ export class ChatView extends ItemView {
 
 		// Header
 		const header = container.createDiv('chat-view-header');
-		header.createEl('h3', { text: 'Gemini RAG Chat' });
-		
-		const clearButton = header.createEl('button', { text: 'Clear' });
-		clearButton.addClass('clear-chat-button');
-		clearButton.addEventListener('click', () => this.clearChat());
+		this.sessionTitleEl = header.createEl('h3', { cls: 'chat-session-title', attr: { 'aria-label': 'Show chats' } });
+		this.sessionTitleEl.addEventListener('click', () => this.toggleSessionPanel());
+
+		const headerButtons = header.createDiv('chat-view-header-buttons');
+		const newButton = headerButtons.createEl('button', { text: 'New' });
+		newButton.addEventListener('click', () => this.newSession());
+		const exportButton = headerButtons.createEl('button', { text: 'Export', attr: { 'aria-label': 'Export conversation to note' } });
+		exportButton.addEventListener('click', () => this.plugin.exportChatSession(this.session));
+
+		// Session list
+		this.sessionPanel = container.createDiv('chat-session-panel');
+		this.sessionPanel.hide();
+		this.sessionSearchInput = this.sessionPanel.createEl('input', {
+			type: 'search',
+			placeholder: 'Search chats...',
+			cls: 'chat-session-search'
+		});
+		this.sessionSearchInput.addEventListener('input', () => this.renderSessionList());
+		this.sessionListEl = this.sessionPanel.createDiv('chat-session-list');
 
 		// Chat container
 		this.chatContainer = container.createDiv('chat-view-container');
 
+		// Retrieval filters
+		this.filterBar = new FilterBar(this.app, container as HTMLElement);
+
+		// Notes added to every question
+		this.contextBar = new ContextBar(this.plugin, container as HTMLElement, this);
+
 		// Input container
 		this.inputContainer = container.createDiv('chat-view-input-container');
-		
+		this.agentButton = this.inputContainer.createEl('button', {
+			text: 'Agent',
+			cls: 'rag-agent-toggle',
+			attr: { 'aria-label': 'Let the model search, read and create notes with tools' }
+		});
+		this.agentButton.addEventListener('click', () => this.setAgentMode(!this.plugin.settings.agentMode));
+		this.modePicker = new ModePicker(this.plugin, this.inputContainer);
+
 		this.messageInput = this.inputContainer.createEl('input', {
 			type: 'text',
-			placeholder: 'Ask anything about your vault...'
+			placeholder: 'Ask anything about your vault... (folder:, tag:, after:)'
 		});
 		this.messageInput.addClass('chat-view-input');
+		this.updateAgentMode();
+
+		this.sendButton = this.inputContainer.createEl('button', { text: 'Send' });
+		this.sendButton.addClass('send-button');
 
-		const sendButton = this.inputContainer.createEl('button', { text: 'Send' });
-		sendButton.addClass('send-button');
+		this.stopButton = this.inputContainer.createEl('button', { text: 'Stop' });
+		this.stopButton.addClass('stop-button');
+		this.stopButton.hide();
 
 		// Event listeners
-		sendButton.addEventListener('click', () => this.sendMessage());
+		this.sendButton.addEventListener('click', () => this.sendMessage());
+		this.stopButton.addEventListener('click', () => this.stopGeneration());
 		this.messageInput.addEventListener('keypress', (e) => {
 			if (e.key === 'Enter') {
 				e.preventDefault();
@@ -64,24 +117,150 @@ export class ChatView extends ItemView {
 			}
 		});
 
-		// Load and render chat history
-		await this.loadChatHistory();
+		// Load and render the active session
+		this.session = this.plugin.chatSessions.getActive();
+		this.renderSessionTitle();
 		this.renderChatHistory();
 	}
 
-	clearChat() {
-		this.chatHistory = [];
+	toggleSessionPanel(show = !this.sessionPanel.isShown()) {
+		this.sessionPanel.toggle(show);
+		if (show) {
+			this.sessionSearchInput.value = '';
+			this.renderSessionList();
+			this.sessionSearchInput.focus();
+		}
+	}
+
+	renderSessionTitle() {
+		this.sessionTitleEl.setText(this.session.name);
+	}
+
+	renderSessionList() {
+		this.sessionListEl.empty();
+		const sessions = this.plugin.chatSessions.search(this.sessionSearchInput.value);
+		if (sessions.length === 0) {
+			this.sessionListEl.createDiv({ cls: 'chat-session-empty', text: 'No matching chats' });
+			return;
+		}
+
+		for (const session of sessions) {
+			const item = this.sessionListEl.createDiv('chat-session-item');
+			item.toggleClass('is-active', session.id === this.session.id);
+
+			const info = item.createDiv('chat-session-info');
+			const nameEl = info.createDiv({ cls: 'chat-session-name', text: session.name });
+			info.createDiv({
+				cls: 'chat-session-meta',
+				text: `${session.messages.length} messages · ${new Date(session.updatedAt).toLocaleDateString()}`
+			});
+			info.addEventListener('click', () => this.switchSession(session));
+
+			const actions = item.createDiv('chat-session-actions');
+			const renameButton = actions.createEl('button', { text: 'Rename' });
+			renameButton.addEventListener('click', () => this.startRename(session, nameEl));
+			const deleteButton = actions.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+			deleteButton.addEventListener('click', () => this.deleteSession(session));
+		}
+	}
+
+	startRename(session: ChatSession, nameEl: HTMLElement) {
+		nameEl.empty();
+		const input = nameEl.createEl('input', { type: 'text', value: session.name, cls: 'chat-session-rename' });
+		input.addEventListener('click', (e) => e.stopPropagation());
+
+		let done = false;
+		const finish = async (save: boolean) => {
+			if (done) return;
+			done = true;
+			if (save) {
+				this.plugin.chatSessions.rename(session.id, input.value);
+				await this.plugin.chatSessions.save();
+				if (session.id === this.session.id) this.renderSessionTitle();
+			}
+			this.renderSessionList();
+		};
+		input.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') finish(true);
+			if (e.key === 'Escape') finish(false);
+		});
+		input.addEventListener('blur', () => finish(true));
+		input.focus();
+		input.select();
+	}
+
+	switchSession(session: ChatSession) {
+		if (this.isProcessing) return;
+		this.plugin.chatSessions.setActive(session.id);
+		this.session = session;
+		this.plugin.chatSessions.save();
+		this.renderSessionTitle();
+		this.renderChatHistory();
+		this.toggleSessionPanel(false);
+	}
+
+	newSession() {
+		if (this.isProcessing) return;
+		// Reuse an empty session instead of piling up blank ones
+		this.session = this.session.messages.length === 0 ? this.session : this.plugin.chatSessions.create();
+		this.plugin.chatSessions.save();
+		this.renderSessionTitle();
 		this.renderChatHistory();
-		this.saveChatHistory();
+		this.toggleSessionPanel(false);
+		this.messageInput.focus();
+	}
+
+	deleteSession(session: ChatSession) {
+		if (this.isProcessing) return;
+		new ConfirmModal(this.app, 'Delete chat', `Delete "${session.name}"? This cannot be undone.`, 'Delete', async () => {
+			this.plugin.chatSessions.delete(session.id);
+			this.session = this.plugin.chatSessions.getActive();
+			await this.plugin.chatSessions.save();
+			this.renderSessionTitle();
+			this.renderChatHistory();
+			this.renderSessionList();
+		}).open();
+	}
+
+	async setAgentMode(enabled: boolean) {
+		this.plugin.settings.agentMode = enabled;
+		await this.plugin.saveUiState();
+		this.updateAgentMode();
+	}
+
+	/**
+	 * Answer modes and the context bar don't apply to the agent, which finds
+	 * its own context through the tools, so they are hidden while it is on.
+	 */
+	updateAgentMode() {
+		const enabled = this.plugin.settings.agentMode;
+		this.agentButton.toggleClass('is-active', enabled);
+		this.modePicker.selectEl.toggle(!enabled);
+		this.contextBar.containerEl.toggle(!enabled);
+		this.messageInput.setAttr('placeholder', enabled
+			? 'Ask the agent to search, read or write notes...'
+			: 'Ask anything about your vault... (folder:, tag:, after:)');
+	}
+
+	stopGeneration() {
+		this.abortController?.abort();
+	}
+
+	setProcessing(processing: boolean) {
+		this.isProcessing = processing;
+		this.messageInput.disabled = processing;
+		this.sendButton.toggle(!processing);
+		this.stopButton.toggle(processing);
 	}
 
 	async sendMessage() {
 		const message = this.messageInput.value.trim();
 		if (!message || this.isProcessing) return;
 
-		this.isProcessing = true;
+		this.setProcessing(true);
 		this.messageInput.value = '';
-		this.messageInput.disabled = true;
+		this.abortController = new AbortController();
+		const signal = this.abortController.signal;
 
 		// Add user message
 		const userMessage: ChatMessage = {
@@ -89,92 +268,167 @@ export class ChatView extends ItemView {
 			content: message,
 			timestamp: Date.now()
 		};
-		this.chatHistory.push(userMessage);
+		const session = this.session;
+		const previousMessages = [...session.messages];
+		session.messages.push(userMessage);
 		this.renderChatHistory();
 
+		const assistantMessage: ChatMessage = {
+			role: 'assistant',
+			content: '',
+			timestamp: Date.now()
+		};
+
 		try {
-			// Get relevant chunks and generate response
-			const relevantChunks = await this.plugin.searchSimilarChunks(message);
-			const response = await this.plugin.queryWithRAG(message);
-			
-			// Add assistant message
-			const assistantMessage: ChatMessage = {
-				role: 'assistant',
-				content: response,
-				timestamp: Date.now(),
-				sources: relevantChunks.length > 0 ? relevantChunks : undefined
-			};
-			this.chatHistory.push(assistantMessage);
-			
+			session.messages.push(assistantMessage);
+			if (this.plugin.settings.agentMode) {
+				await this.runAgent(message, previousMessages, assistantMessage, signal);
+			} else {
+				await this.streamAnswer(message, previousMessages, assistantMessage, signal);
+			}
+
+			if (signal.aborted) {
+				assistantMessage.content += assistantMessage.content ? '\n\n*(stopped)*' : '*(stopped)*';
+			}
+
 		} catch (error) {
 			console.error('Chat error:', error);
+			session.messages.remove(assistantMessage);
 			const errorMessage: ChatMessage = {
 				role: 'assistant',
 				content: 'Sorry, I encountered an error processing your message. Please check your API key and try again.',
 				timestamp: Date.now()
 			};
-			this.chatHistory.push(errorMessage);
+			session.messages.push(errorMessage);
 		}
 
+		this.abortController = null;
 		this.renderChatHistory();
-		this.saveChatHistory();
-		this.isProcessing = false;
-		this.messageInput.disabled = false;
+		await this.saveSession();
+		this.setProcessing(false);
 		this.messageInput.focus();
 	}
 
+	/** Streams the answer into the message as it arrives. */
+	async streamAnswer(message: string, previousMessages: ChatMessage[], assistantMessage: ChatMessage, signal: AbortSignal) {
+		const contentEl = this.renderMessage(assistantMessage);
+		contentEl.addClass('is-streaming');
+		const stream = new MarkdownStream(contentEl, this.plugin);
+
+		for await (const event of this.plugin.streamQueryWithRAG(message, {
+			history: previousMessages,
+			filter: this.filterBar.getFilter(),
+			mode: this.modePicker.getMode(),
+			context: this.contextBar.getOptions(),
+			signal
+		})) {
+			if (event.type === 'sources') {
+				assistantMessage.sources = event.sources.length > 0 ? event.sources : undefined;
+				continue;
+			}
+			stream.append(event.type === 'unavailable' ? event.message : event.text);
+			assistantMessage.content = stream.text;
+			this.scrollToBottom();
+		}
+		await stream.finish();
+	}
+
+	/**
+	 * Runs agent mode. The tool calls show up in the message as they happen,
+	 * the answer is rendered once the agent is done.
+	 */
+	async runAgent(message: string, previousMessages: ChatMessage[], assistantMessage: ChatMessage, signal: AbortSignal) {
+		assistantMessage.steps = [];
+		const contentEl = this.renderMessage(assistantMessage);
+		contentEl.addClass('is-streaming');
+		contentEl.setText('Working...');
+		const stepsEl = contentEl.parentElement?.querySelector<HTMLElement>('.agent-steps');
+
+		const result = await this.plugin.queryWithAgent(message, {
+			history: previousMessages,
+			filter: this.filterBar.getFilter(),
+			signal,
+			onStep: (step) => {
+				if (!assistantMessage.steps?.includes(step)) assistantMessage.steps?.push(step);
+				if (stepsEl) renderAgentSteps(stepsEl, assistantMessage.steps ?? []);
+				this.scrollToBottom();
+			}
+		});
+
+		assistantMessage.content = result.answer;
+		assistantMessage.steps = result.steps.length > 0 ? result.steps : undefined;
+		assistantMessage.sources = result.sources.length > 0 ? result.sources : undefined;
+	}
+
 	renderChatHistory() {
 		this.chatContainer.empty();
 
-		if (this.chatHistory.length === 0) {
+		if (this.session.messages.length === 0) {
 			const emptyState = this.chatContainer.createDiv('empty-chat');
 			emptyState.createEl('p', { text: '👋 Start a conversation! Ask me anything about your vault.' });
 			return;
 		}
 
-		this.chatHistory.forEach((message) => {
-			const messageEl = this.chatContainer.createDiv(`message ${message.role}-message`);
-			
-			// Message header
-			const messageHeader = messageEl.createDiv('message-header');
-			messageHeader.createEl('span', { 
-				text: message.role === 'user' ? 'You' : 'Gemini',
-				cls: 'message-author'
-			});
-			messageHeader.createEl('span', { 
-				text: new Date(message.timestamp).toLocaleTimeString(),
-				cls: 'message-time'
-			});
+		this.session.messages.forEach((message) => this.renderMessage(message));
 
-			// Message content
-			const messageContent = messageEl.createDiv('message-content');
-			if (message.role === 'assistant') {
-				this.renderMarkdown(message.content, messageContent);
-			} else {
-				messageContent.setText(message.content);
-			}
+		this.scrollToBottom();
+	}
 
-			// Sources for assistant messages
-			if (message.role === 'assistant' && message.sources && message.sources.length > 0) {
-				const sourcesEl = messageEl.createDiv('message-sources');
-				sourcesEl.createEl('small', { text: 'Sources:' });
-				
-				const sourcesList = sourcesEl.createEl('ul');
-				message.sources.forEach((source) => {
-					const sourceItem = sourcesList.createEl('li');
-					const sourceLink = sourceItem.createEl('a', {
-						text: `${source.fileName} (${(source.similarity! * 100).toFixed(1)}%)`,
-						href: '#'
-					});
-					sourceLink.addEventListener('click', (e) => {
-						e.preventDefault();
-						this.app.workspace.openLinkText(source.filePath, '');
-					});
-				});
-			}
+	/**
+	 * Appends a single message to the chat and returns its content element.
+	 */
+	renderMessage(message: ChatMessage): HTMLElement {
+		const messageEl = this.chatContainer.createDiv(`message ${message.role}-message`);
+
+		// Message header
+		const messageHeader = messageEl.createDiv('message-header');
+		messageHeader.createEl('span', {
+			text: message.role === 'user' ? 'You' : getChatProvider(this.plugin.settings.chatProvider).name,
+			cls: 'message-author'
+		});
+		messageHeader.createEl('span', {
+			text: new Date(message.timestamp).toLocaleTimeString(),
+			cls: 'message-time'
 		});
 
-		// Scroll to bottom
+		// Tool calls of agent answers, before the answer itself
+		if (message.role === 'assistant' && message.steps) {
+			renderAgentSteps(messageEl.createDiv('agent-steps'), message.steps);
+		}
+
+		// Message content
+		const messageContent = messageEl.createDiv('message-content');
+		if (message.role === 'assistant') {
+			const sources = message.sources ?? [];
+			this.renderMarkdown(message.content, messageContent)
+				.then(() => linkCitations(messageContent, sources, (source) => openChunkLocation(this.app, source)));
+		} else {
+			messageContent.setText(message.content);
+		}
+
+		// Sources for assistant messages
+		if (message.role === 'assistant' && message.sources && message.sources.length > 0) {
+			const sourcesEl = messageEl.createDiv('message-sources');
+			sourcesEl.createEl('small', { text: 'Sources:' });
+
+			const sourcesList = sourcesEl.createEl('ol');
+			message.sources.forEach((source) => {
+				const sourceItem = sourcesList.createEl('li');
+				const sourceLink = sourceItem.createEl('a', {
+					text: `${formatChunkLocation(source)} (${formatSourceDetail(source)})`,
+					href: '#'
+				});
+				sourceLink.addEventListener('click', (e) => {
+					e.preventDefault();
+					openChunkLocation(this.app, source);
+				});
+			});
+		}
+
+		return messageContent;
+	}
+
+	scrollToBottom() {
 		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
 	}
 
@@ -190,28 +444,14 @@ export class ChatView extends ItemView {
 			.join('');
 	}
 
-	async loadChatHistory() {
-		try {
-			const data = await this.plugin.loadData();
-			if (data && data.chatHistory) {
-				this.chatHistory = data.chatHistory;
-			}
-		} catch (error) {
-			console.error('Error loading chat history:', error);
-		}
-	}
-
-	async saveChatHistory() {
-		try {
-			const existingData = await this.plugin.loadData() || {};
-			existingData.chatHistory = this.chatHistory;
-			await this.plugin.saveData(existingData);
-		} catch (error) {
-			console.error('Error saving chat history:', error);
-		}
+	async saveSession() {
+		this.plugin.chatSessions.touch(this.session);
+		this.renderSessionTitle();
+		await this.plugin.chatSessions.save();
 	}
 
 	async onClose() {
-		await this.saveChatHistory();
+		this.stopGeneration();
+		await this.plugin.chatSessions.save();
 	}
 }
\ No newline at end of file
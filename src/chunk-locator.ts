@@ -0,0 +1,86 @@
+export interface ChunkLocation {
+	startOffset: number;
+	endOffset: number;
+	startLine: number;
+	endLine: number;
+	headingPath: string[];
+}
+
+interface Heading {
+	offset: number;
+	level: number;
+	text: string;
+}
+
+export function findHeadings(content: string): Heading[] {
+	const headings: Heading[] = [];
+	let offset = 0;
+	let inFence = false;
+
+	for (const line of content.split('\n')) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		} else if (!inFence) {
+			const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+			if (match) {
+				headings.push({ offset, level: match[1].length, text: match[2] });
+			}
+		}
+		offset += line.length + 1;
+	}
+
+	return headings;
+}
+
+/**
+ * Returns the nested headings (outermost first) that the given offset falls under.
+ */
+export function headingPathAt(headings: Heading[], offset: number): string[] {
+	const stack: Heading[] = [];
+	for (const heading of headings) {
+		if (heading.offset > offset) break;
+		while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+			stack.pop();
+		}
+		stack.push(heading);
+	}
+	return stack.map(heading => heading.text);
+}
+
+export function lineAt(content: string, offset: number): number {
+	let line = 0;
+	for (let i = 0; i < offset && i < content.length; i++) {
+		if (content.charCodeAt(i) === 10) line++;
+	}
+	return line;
+}
+
+/**
+ * Finds where each chunk produced by a text splitter sits in the original content.
+ * Chunks are expected in document order; overlapping chunks are supported.
+ */
+export function locateChunks(content: string, chunks: string[]): ChunkLocation[] {
+	const headings = findHeadings(content);
+	let searchFrom = 0;
+
+	return chunks.map(chunk => {
+		let start = content.indexOf(chunk, searchFrom);
+		if (start === -1) {
+			// Splitters may normalize whitespace, fall back to the chunk's first line
+			const firstLine = chunk.split('\n')[0];
+			start = firstLine ? content.indexOf(firstLine, searchFrom) : -1;
+		}
+		if (start === -1) start = searchFrom;
+
+		const end = Math.min(content.length, start + chunk.length);
+		searchFrom = start + 1;
+
+		return {
+			startOffset: start,
+			endOffset: end,
+			startLine: lineAt(content, start),
+			endLine: lineAt(content, end),
+			headingPath: headingPathAt(headings, start)
+		};
+	});
+}
@@ -0,0 +1,138 @@
+import { App, MarkdownView, TFile } from 'obsidian';
+import { DocumentChunk } from './types';
+import { ORIGIN_LABELS } from './note-context';
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Replaces the [n] markers the model was asked to emit with clickable
+ * footnote links. Runs on rendered markdown and leaves code untouched.
+ */
+export function linkCitations(container: HTMLElement, sources: DocumentChunk[], onOpen: (source: DocumentChunk) => void) {
+	if (sources.length === 0) return;
+
+	const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+	const textNodes: Text[] = [];
+	while (walker.nextNode()) {
+		const node = walker.currentNode as Text;
+		if (node.parentElement?.closest('code, pre, a')) continue;
+		CITATION_PATTERN.lastIndex = 0;
+		if (CITATION_PATTERN.test(node.data)) textNodes.push(node);
+	}
+
+	for (const node of textNodes) {
+		const fragment = document.createDocumentFragment();
+		let lastIndex = 0;
+		CITATION_PATTERN.lastIndex = 0;
+
+		let match: RegExpExecArray | null;
+		while ((match = CITATION_PATTERN.exec(node.data)) !== null) {
+			const numbers = match[1].split(',').map(n => parseInt(n.trim(), 10));
+			if (numbers.some(n => n < 1 || n > sources.length)) continue;
+
+			fragment.append(node.data.slice(lastIndex, match.index));
+			for (const n of numbers) {
+				const source = sources[n - 1];
+				const link = createEl('a', {
+					text: `[${n}]`,
+					cls: 'rag-citation',
+					href: '#',
+					attr: { 'aria-label': formatChunkLocation(source) }
+				});
+				link.addEventListener('click', (e) => {
+					e.preventDefault();
+					onOpen(source);
+				});
+				fragment.append(createEl('sup', {}, sup => sup.appendChild(link)));
+			}
+			lastIndex = match.index + match[0].length;
+		}
+
+		fragment.append(node.data.slice(lastIndex));
+		node.replaceWith(fragment);
+	}
+}
+
+export function formatChunkLocation(chunk: DocumentChunk): string {
+	let location = chunk.fileName;
+	if (chunk.headingPath && chunk.headingPath.length > 0) {
+		location += ` › ${chunk.headingPath.join(' › ')}`;
+	}
+	if (chunk.startLine !== undefined && chunk.endLine !== undefined) {
+		location += ` (lines ${chunk.startLine + 1}-${chunk.endLine + 1})`;
+	}
+	return location;
+}
+
+/**
+ * How a source got into the context: its match score for direct search
+ * results, the link it was reached through for graph expansion, or why it
+ * was added otherwise.
+ */
+export function formatSourceDetail(chunk: DocumentChunk): string {
+	if (chunk.origin) return ORIGIN_LABELS[chunk.origin];
+	const score = `${((chunk.similarity ?? 0) * 100).toFixed(1)}% match`;
+	if (!chunk.linkedFrom) return score;
+	const { path, hops } = chunk.linkedFrom;
+	const name = path.replace(/^.*\//, '').replace(/\.md$/, '');
+	return `${score}, ${hops === 1 ? 'linked from' : `${hops} links from`} ${name}`;
+}
+
+/**
+ * Opens the note a chunk came from and selects the chunk's line range,
+ * falling back to its heading for chunks indexed without offsets. PDFs are
+ * opened at the page.
+ */
+export async function openChunkLocation(app: App, chunk: DocumentChunk) {
+	const file = app.vault.getAbstractFileByPath(chunk.filePath);
+	if (!(file instanceof TFile)) {
+		await app.workspace.openLinkText(chunk.filePath, '');
+		return;
+	}
+
+	// Text extracted from PDFs, canvases and images has no lines or headings to go to
+	if (file.extension !== 'md') {
+		await app.workspace.openLinkText(chunk.page !== undefined ? `${chunk.filePath}#page=${chunk.page}` : chunk.filePath, '');
+		return;
+	}
+
+	if (chunk.startLine === undefined || chunk.endLine === undefined) {
+		const heading = chunk.headingPath?.[chunk.headingPath.length - 1];
+		await app.workspace.openLinkText(heading ? `${chunk.filePath}#${heading}` : chunk.filePath, '');
+		return;
+	}
+
+	const leaf = app.workspace.getLeaf(false);
+	await leaf.openFile(file, { eState: { line: chunk.startLine } });
+
+	const view = leaf.view;
+	if (view instanceof MarkdownView) {
+		const editor = view.editor;
+		const endLine = Math.min(chunk.endLine, editor.lastLine());
+		const from = { line: chunk.startLine, ch: 0 };
+		const to = { line: endLine, ch: editor.getLine(endLine).length };
+		editor.setSelection(from, to);
+		editor.scrollIntoView({ from, to }, true);
+	}
+}
+
+/**
+ * Wiki-link to the note a chunk came from, pointing at its heading or PDF
+ * page when it has one. sourcePath is the note the link is written into.
+ */
+export function formatSourceLink(app: App, chunk: DocumentChunk, sourcePath: string): string {
+	const file = app.vault.getAbstractFileByPath(chunk.filePath);
+	const linkText = file instanceof TFile
+		? app.metadataCache.fileToLinktext(file, sourcePath, true)
+		: chunk.filePath.replace(/\.md$/, '');
+	// Extracted text is labelled with its page or card instead of a heading
+	const heading = chunk.filePath.endsWith('.md') ? chunk.headingPath?.[chunk.headingPath.length - 1] : undefined;
+	// '#', '|' and brackets can't appear inside a link target
+	const subpath = chunk.page !== undefined
+		? `#page=${chunk.page}`
+		: heading ? `#${heading.replace(/[#|[\]^]/g, ' ').trim()}` : '';
+	const alias = chunk.headingPath && chunk.headingPath.length > 0
+		? `${chunk.fileName.replace(/\.md$/, '')} › ${chunk.headingPath.join(' › ')}`
+		: '';
+	return `[[${linkText}${subpath}${alias ? `|${alias.replace(/[|[\]]/g, ' ')}` : ''}]]`;
+}
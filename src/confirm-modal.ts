@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	onConfirm: () => void;
+	// Called when the modal is closed any other way
+	onCancel?: () => void;
+	confirmed = false;
+
+	constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void, onCancel?: () => void) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', { text: this.message, cls: 'confirm-modal-message' });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.confirmed) this.onCancel?.();
+	}
+}
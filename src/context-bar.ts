@@ -0,0 +1,97 @@
+import { Component, TFile } from 'obsidian';
+import type GeminiRAGPlugin from '../main';
+import { NoteContextOptions, isPinnedFolder } from './note-context';
+import { PinSuggestModal } from './pin-suggest-modal';
+
+/**
+ * Chat context options above the input: whether to add the active note and
+ * its linked notes, and the pinned notes and folders as removable chips.
+ * The choices are kept in the settings so they survive a restart.
+ */
+export class ContextBar {
+	plugin: GeminiRAGPlugin;
+	containerEl: HTMLElement;
+	activeToggle: HTMLInputElement;
+	activeLabel: HTMLElement;
+	linkedToggle: HTMLInputElement;
+	pinsEl: HTMLElement;
+
+	constructor(plugin: GeminiRAGPlugin, parent: HTMLElement, component: Component) {
+		this.plugin = plugin;
+		this.containerEl = parent.createDiv('rag-context-bar');
+
+		const options = this.containerEl.createDiv('rag-context-options');
+		const [activeToggle, activeLabel] = this.createToggle(options, plugin.settings.includeActiveNote, async (value) => {
+			plugin.settings.includeActiveNote = value;
+			await plugin.saveUiState();
+		});
+		this.activeToggle = activeToggle;
+		this.activeLabel = activeLabel;
+
+		const [linkedToggle, linkedLabel] = this.createToggle(options, plugin.settings.includeLinkedNotes, async (value) => {
+			plugin.settings.includeLinkedNotes = value;
+			await plugin.saveUiState();
+		});
+		this.linkedToggle = linkedToggle;
+		linkedLabel.setText('Linked notes');
+
+		const pinButton = options.createEl('button', { text: 'Pin...', cls: 'rag-context-pin', attr: { 'aria-label': 'Pin a note or folder as context' } });
+		pinButton.addEventListener('click', () => new PinSuggestModal(plugin.app, (path) => this.pin(path)).open());
+
+		this.pinsEl = this.containerEl.createDiv('rag-context-pins');
+
+		// The chat view itself never becomes the active file, so this shows the last note worked on
+		component.registerEvent(plugin.app.workspace.on('file-open', () => this.updateActiveLabel()));
+		this.updateActiveLabel();
+		this.renderPins();
+	}
+
+	/** A checkbox with its label text element. */
+	createToggle(parent: HTMLElement, checked: boolean, onChange: (value: boolean) => Promise<void>): [HTMLInputElement, HTMLElement] {
+		const label = parent.createEl('label', { cls: 'rag-context-option' });
+		const toggle = label.createEl('input', { type: 'checkbox' });
+		toggle.checked = checked;
+		toggle.addEventListener('change', () => onChange(toggle.checked));
+		return [toggle, label.createSpan()];
+	}
+
+	getOptions(): NoteContextOptions {
+		return {
+			activeNote: this.activeToggle.checked,
+			linkedNotes: this.linkedToggle.checked,
+			pinned: [...this.plugin.settings.pinnedContext]
+		};
+	}
+
+	updateActiveLabel() {
+		const file = this.plugin.app.workspace.getActiveFile();
+		this.activeLabel.setText(file instanceof TFile && file.extension === 'md' ? `Active note: ${file.basename}` : 'Active note');
+	}
+
+	async pin(path: string) {
+		if (this.plugin.settings.pinnedContext.includes(path)) return;
+		this.plugin.settings.pinnedContext = [...this.plugin.settings.pinnedContext, path];
+		await this.plugin.saveUiState();
+		this.renderPins();
+	}
+
+	async unpin(path: string) {
+		this.plugin.settings.pinnedContext = this.plugin.settings.pinnedContext.filter(pinned => pinned !== path);
+		await this.plugin.saveUiState();
+		this.renderPins();
+	}
+
+	renderPins() {
+		this.pinsEl.empty();
+		const pinned = this.plugin.settings.pinnedContext;
+		this.pinsEl.toggle(pinned.length > 0);
+
+		for (const path of pinned) {
+			const name = isPinnedFolder(path) ? path : path.replace(/^.*\//, '').replace(/\.md$/, '');
+			const chip = this.pinsEl.createSpan({ cls: 'rag-context-chip', text: name, attr: { 'aria-label': path } });
+			chip.toggleClass('is-missing', !this.plugin.app.vault.getAbstractFileByPath(isPinnedFolder(path) ? path.slice(0, -1) : path));
+			const remove = chip.createSpan({ cls: 'rag-context-chip-remove', text: '×', attr: { 'aria-label': `Unpin ${path}` } });
+			remove.addEventListener('click', () => this.unpin(path));
+		}
+	}
+}
@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Embeddings } from '@langchain/core/embeddings';
+import { hashContent } from './index-manifest';
+import { decodeVectors, encodeVectors } from './index-store';
+
+const CACHE_VERSION = 1;
+const ENTRIES_FILE = 'entries.json';
+const VECTORS_FILE = 'vectors.bin';
+// Vectors that no build, update or loaded index used for this long are dropped on save
+const MAX_UNUSED_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+	embedding: number[];
+	lastUsed: number;
+}
+
+// Vectors follow in vectors.bin in the same order, model by model
+interface CacheData {
+	version: number;
+	models: { model: string; dimensions: number; hashes: string[]; lastUsed: number[] }[];
+	timestamp: number;
+}
+
+export interface EmbeddingCacheStats {
+	// Vectors of the given model
+	entries: number;
+	// Vectors of all models
+	totalEntries: number;
+	// Texts looked up since the cache was loaded
+	hits: number;
+	misses: number;
+}
+
+/**
+ * Vectors by embedding model and hash of the chunk text, persisted next to
+ * the index. Identical text embedded by the same model is never paid for
+ * twice, whether in a rebuild, after a settings change or an update.
+ */
+export class EmbeddingCache {
+	dir: string;
+	models: Map<string, Map<string, CacheEntry>> = new Map();
+	// Only additions and removals need a write, usage times are saved along with them
+	dirty = false;
+	loading: Promise<boolean> | null = null;
+	hits = 0;
+	misses = 0;
+
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	get(model: string, hash: string): number[] | undefined {
+		const entry = this.models.get(model)?.get(hash);
+		if (!entry) return undefined;
+		entry.lastUsed = Date.now();
+		return entry.embedding;
+	}
+
+	has(model: string, hash: string): boolean {
+		return this.models.get(model)?.has(hash) ?? false;
+	}
+
+	set(model: string, hash: string, embedding: number[]) {
+		let entries = this.models.get(model);
+		if (!entries) {
+			entries = new Map();
+			this.models.set(model, entries);
+		}
+		entries.set(hash, { embedding, lastUsed: Date.now() });
+		this.dirty = true;
+	}
+
+	/**
+	 * Marks the vectors of an index as used, so they don't expire while they
+	 * are in the index. With addMissing, vectors not cached yet are added,
+	 * which fills the cache from indexes built before it existed.
+	 */
+	retain(model: string, vectors: { content: string; embedding: number[] }[], addMissing: boolean) {
+		for (const vector of vectors) {
+			const hash = hashContent(vector.content);
+			if (!this.get(model, hash) && addMissing) this.set(model, hash, vector.embedding);
+		}
+	}
+
+	clear() {
+		this.models.clear();
+		// Nothing on disk is needed anymore, save() overwrites it
+		this.loading = Promise.resolve(true);
+		this.hits = 0;
+		this.misses = 0;
+		this.dirty = true;
+	}
+
+	getStats(model: string): EmbeddingCacheStats {
+		let totalEntries = 0;
+		this.models.forEach(entries => totalEntries += entries.size);
+		return { entries: this.models.get(model)?.size ?? 0, totalEntries, hits: this.hits, misses: this.misses };
+	}
+
+	/** Drops vectors unused for longer than MAX_UNUSED_AGE_MS. */
+	prune() {
+		const cutoff = Date.now() - MAX_UNUSED_AGE_MS;
+		for (const [model, entries] of this.models) {
+			for (const [hash, entry] of entries) {
+				if (entry.lastUsed >= cutoff) continue;
+				entries.delete(hash);
+				this.dirty = true;
+			}
+			if (entries.size === 0) this.models.delete(model);
+		}
+	}
+
+	/** Reads the cache from disk the first time it is needed. */
+	ensureLoaded(): Promise<boolean> {
+		if (!this.loading) this.loading = this.load();
+		return this.loading;
+	}
+
+	async load(): Promise<boolean> {
+		try {
+			const data: CacheData = JSON.parse(await fs.readFile(join(this.dir, ENTRIES_FILE), 'utf-8'));
+			if (data.version !== CACHE_VERSION || !Array.isArray(data.models)) return false;
+			const buffer = await fs.readFile(join(this.dir, VECTORS_FILE));
+
+			this.models.clear();
+			let offset = 0;
+			for (const { model, dimensions, hashes, lastUsed } of data.models) {
+				const byteLength = hashes.length * dimensions * 4;
+				const vectors = decodeVectors(buffer.subarray(offset, offset + byteLength), hashes.length, dimensions, 'float32');
+				offset += byteLength;
+				this.models.set(model, new Map(hashes.map((hash, index) => [hash, { embedding: vectors[index], lastUsed: lastUsed[index] }])));
+			}
+			this.dirty = false;
+			return true;
+		} catch (error) {
+			this.models.clear();
+			return false;
+		}
+	}
+
+	/** Writes the cache if vectors were added or removed since it was loaded. */
+	async save() {
+		// Never replace the file with a cache that was not read from it
+		await this.ensureLoaded();
+		this.prune();
+		if (!this.dirty) return;
+
+		const data: CacheData = { version: CACHE_VERSION, models: [], timestamp: Date.now() };
+		const blobs: Buffer[] = [];
+		for (const [model, entries] of this.models) {
+			const dimensions = entries.values().next().value?.embedding.length ?? 0;
+			// A model whose vector size changed keeps only the vectors of the current size
+			const current = Array.from(entries).filter(([, entry]) => entry.embedding.length === dimensions);
+			data.models.push({
+				model,
+				dimensions,
+				hashes: current.map(([hash]) => hash),
+				lastUsed: current.map(([, entry]) => entry.lastUsed)
+			});
+			blobs.push(encodeVectors(current.map(([, entry]) => entry.embedding), dimensions, 'float32'));
+		}
+
+		try {
+			await fs.mkdir(this.dir, { recursive: true });
+			await fs.writeFile(join(this.dir, VECTORS_FILE), Buffer.concat(blobs));
+			await fs.writeFile(join(this.dir, ENTRIES_FILE), JSON.stringify(data));
+			this.dirty = false;
+		} catch (error) {
+			console.error('Error saving embedding cache:', error);
+		}
+	}
+}
+
+/**
+ * Wraps the embeddings of a provider so documents are looked up in the cache
+ * first and only new texts are sent. Queries are not cached.
+ */
+export class CachedEmbeddings extends Embeddings {
+	embeddings: Embeddings;
+	cache: EmbeddingCache;
+	// Provider and model name, vectors of different models are kept apart
+	model: string;
+
+	constructor(embeddings: Embeddings, cache: EmbeddingCache, model: string) {
+		super({});
+		this.embeddings = embeddings;
+		this.cache = cache;
+		this.model = model;
+	}
+
+	/** True when all texts are cached, so embedding them makes no request. */
+	hasAll(texts: string[]): boolean {
+		return texts.every(text => this.cache.has(this.model, hashContent(text)));
+	}
+
+	async embedDocuments(texts: string[]): Promise<number[][]> {
+		await this.cache.ensureLoaded();
+		const hashes = texts.map(text => hashContent(text));
+		const missing = new Map<string, string>();
+		hashes.forEach((hash, index) => {
+			if (!this.cache.has(this.model, hash)) missing.set(hash, texts[index]);
+		});
+
+		if (missing.size > 0) {
+			const vectors = await this.embeddings.embedDocuments(Array.from(missing.values()));
+			Array.from(missing.keys()).forEach((hash, index) => this.cache.set(this.model, hash, vectors[index]));
+		}
+		this.cache.misses += missing.size;
+		this.cache.hits += texts.length - missing.size;
+
+		return hashes.map(hash => this.cache.get(this.model, hash) as number[]);
+	}
+
+	embedQuery(text: string): Promise<number[]> {
+		return this.embeddings.embedQuery(text);
+	}
+}
@@ -0,0 +1,49 @@
+import { Embeddings, EmbeddingsParams } from '@langchain/core/embeddings';
+import { tokenize } from '../keyword-index';
+
+// Enough buckets that unrelated words rarely collide in small test vaults
+const DIMENSIONS = 256;
+
+function hashTerm(term: string): number {
+	// FNV-1a
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < term.length; i++) {
+		hash ^= term.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Offline stand-in for an embedding model: hashes the words of a text into
+ * a fixed number of buckets. The same text always gets the same vector and
+ * texts sharing words are similar, which is all evaluation runs without an
+ * API need.
+ */
+export class DeterministicEmbeddings extends Embeddings {
+	dimensions: number;
+
+	constructor(fields: EmbeddingsParams & { dimensions?: number } = {}) {
+		super(fields);
+		this.dimensions = fields.dimensions ?? DIMENSIONS;
+	}
+
+	embed(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		// Keeps texts without words from becoming zero vectors, whose similarity is undefined
+		vector[0] = 0.01;
+		for (const term of tokenize(text)) {
+			vector[hashTerm(term) % this.dimensions] += 1;
+		}
+		const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+		return vector.map(value => value / norm);
+	}
+
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		return documents.map(document => this.embed(document));
+	}
+
+	async embedQuery(document: string): Promise<number[]> {
+		return this.embed(document);
+	}
+}
@@ -0,0 +1,175 @@
+import type { DocumentChunk, RAGResult } from '../types';
+import { GoldenQuestion, GoldenSet } from './golden-set';
+
+export interface EvaluationRunner {
+	search(question: string): Promise<DocumentChunk[]>;
+	// The full chain; without it only retrieval is evaluated
+	answer?(question: string): Promise<RAGResult>;
+}
+
+export interface GroundednessCheck {
+	// The answer cites at least one source
+	hasCitations: boolean;
+	// Every [n] refers to a source that was given to the model
+	validCitations: boolean;
+	// A cited source is one of the expected ones; null when none are expected
+	citesExpectedSource: boolean | null;
+	// Phrases from answerContains missing in the answer
+	missingPhrases: string[];
+	grounded: boolean;
+}
+
+export interface QuestionResult {
+	question: GoldenQuestion;
+	retrieved: DocumentChunk[];
+	// 1-based rank of every retrieved chunk that matches an expectation
+	relevantRanks: number[];
+	// Expected sources and passages not found in the top k
+	missing: string[];
+	recall: number;
+	reciprocalRank: number;
+	answer?: string;
+	groundedness?: GroundednessCheck;
+	error?: string;
+}
+
+export interface EvaluationReport {
+	name: string;
+	k: number;
+	results: QuestionResult[];
+	recallAtK: number;
+	mrr: number;
+	// Share of questions with at least one relevant chunk in the top k
+	hitRate: number;
+	// Share of answered questions that passed all groundedness checks, null without answers
+	groundedRate: number | null;
+	startedAt: number;
+	duration: number;
+}
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function normalizeText(text: string): string {
+	return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * An expected source matches a path written out in full, without `.md`, or
+ * as link text naming only the end of the path.
+ */
+export function matchesSource(path: string, expected: string): boolean {
+	const actual = path.toLowerCase();
+	const wanted = expected.toLowerCase().replace(/^\/+/, '');
+	const withExtension = /\.[a-z0-9]+$/.test(wanted) ? wanted : `${wanted}.md`;
+	return actual === withExtension || actual.endsWith(`/${withExtension}`);
+}
+
+export function hasRetrievalExpectations(question: GoldenQuestion): boolean {
+	return question.sources.length + question.passages.length > 0;
+}
+
+export function isRelevant(chunk: DocumentChunk, question: GoldenQuestion): boolean {
+	const content = normalizeText(chunk.content);
+	return question.sources.some(source => matchesSource(chunk.filePath, source))
+		|| question.passages.some(passage => content.includes(normalizeText(passage)));
+}
+
+export function scoreRetrieval(question: GoldenQuestion, retrieved: DocumentChunk[], k: number): Pick<QuestionResult, 'relevantRanks' | 'missing' | 'recall' | 'reciprocalRank'> {
+	const top = retrieved.slice(0, k);
+	const relevantRanks = top
+		.map((chunk, index) => isRelevant(chunk, question) ? index + 1 : 0)
+		.filter(rank => rank > 0);
+
+	const missing = [
+		...question.sources.filter(source => !top.some(chunk => matchesSource(chunk.filePath, source))),
+		...question.passages.filter(passage => !top.some(chunk => normalizeText(chunk.content).includes(normalizeText(passage))))
+	];
+	const expected = question.sources.length + question.passages.length;
+
+	return {
+		relevantRanks,
+		missing,
+		recall: expected > 0 ? (expected - missing.length) / expected : 0,
+		reciprocalRank: relevantRanks.length > 0 ? 1 / relevantRanks[0] : 0
+	};
+}
+
+/**
+ * Checks that an answer is backed by its sources: it cites them, only
+ * cites numbers that exist, cites an expected note and says what it should.
+ */
+export function checkGroundedness(question: GoldenQuestion, result: RAGResult): GroundednessCheck {
+	const cited = new Set<number>();
+	for (const match of result.answer.matchAll(CITATION_PATTERN)) {
+		match[1].split(',').forEach(n => cited.add(parseInt(n.trim(), 10)));
+	}
+
+	const hasCitations = cited.size > 0;
+	const validCitations = Array.from(cited).every(n => n >= 1 && n <= result.sources.length);
+	const citedSources = Array.from(cited).map(n => result.sources[n - 1]).filter(source => !!source);
+	const citesExpectedSource = hasRetrievalExpectations(question) ? citedSources.some(source => isRelevant(source, question)) : null;
+	const answer = normalizeText(result.answer);
+	const missingPhrases = question.answerContains.filter(phrase => !answer.includes(normalizeText(phrase)));
+
+	return {
+		hasCitations,
+		validCitations,
+		citesExpectedSource,
+		missingPhrases,
+		grounded: hasCitations && validCitations && citesExpectedSource !== false && missingPhrases.length === 0
+	};
+}
+
+function average(values: number[]): number {
+	return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Runs every question of the golden set through retrieval and, if the
+ * runner can answer, through the full chain. Questions run one after the
+ * other; a failing question is recorded and the run continues.
+ */
+export async function runEvaluation(set: GoldenSet, runner: EvaluationRunner, k: number,
+	onProgress?: (done: number, total: number) => void): Promise<EvaluationReport> {
+	const startedAt = Date.now();
+	const results: QuestionResult[] = [];
+
+	for (const question of set.questions) {
+		try {
+			const retrieved = await runner.search(question.question);
+			const result: QuestionResult = { question, retrieved, ...scoreRetrieval(question, retrieved, k) };
+			if (runner.answer) {
+				const answered = await runner.answer(question.question);
+				result.answer = answered.answer;
+				result.groundedness = checkGroundedness(question, answered);
+			}
+			results.push(result);
+		} catch (error) {
+			results.push({
+				question,
+				retrieved: [],
+				relevantRanks: [],
+				missing: [...question.sources, ...question.passages],
+				recall: 0,
+				reciprocalRank: 0,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+		onProgress?.(results.length, set.questions.length);
+	}
+
+	// Questions that only check the answer don't count towards the retrieval metrics
+	const scored = results.filter(result => hasRetrievalExpectations(result.question));
+	const answered = results.filter(result => result.groundedness);
+	return {
+		name: set.name,
+		k,
+		results,
+		recallAtK: average(scored.map(result => result.recall)),
+		mrr: average(scored.map(result => result.reciprocalRank)),
+		hitRate: average(scored.map(result => result.relevantRanks.length > 0 ? 1 : 0)),
+		groundedRate: answered.length > 0 ? average(answered.map(result => result.groundedness?.grounded ? 1 : 0)) : null,
+		startedAt,
+		duration: Date.now() - startedAt
+	};
+}
@@ -0,0 +1,94 @@
+import { splitFrontmatter } from '../markdown-chunker';
+
+export interface GoldenQuestion {
+	question: string;
+	// Notes that should be retrieved, as paths or link text
+	sources: string[];
+	// Text that should appear in a retrieved chunk
+	passages: string[];
+	// Phrases the generated answer should contain
+	answerContains: string[];
+}
+
+export interface GoldenSet {
+	name: string;
+	questions: GoldenQuestion[];
+}
+
+interface GoldenQuestionJson {
+	question?: unknown;
+	sources?: unknown;
+	passages?: unknown;
+	answerContains?: unknown;
+}
+
+function toStringList(value: unknown): string[] {
+	if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+	if (!Array.isArray(value)) return [];
+	return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+}
+
+/** `[[Note#Heading|Alias]]` becomes `Note`, anything else is kept as written. */
+function stripWikiLink(value: string): string {
+	const match = /^\[\[([^\]|#]+)[^\]]*\]\]$/.exec(value.trim());
+	return match ? match[1].trim() : value.trim();
+}
+
+/**
+ * Reads a golden set from JSON, either a list of questions or an object
+ * with `name` and `questions`. Each question has `question`, and any of
+ * `sources`, `passages` and `answerContains`.
+ */
+export function parseGoldenSetJson(name: string, text: string): GoldenSet {
+	const data = JSON.parse(text);
+	const items: GoldenQuestionJson[] = Array.isArray(data) ? data : Array.isArray(data?.questions) ? data.questions : [];
+	const questions = items
+		.filter(item => typeof item?.question === 'string' && item.question.trim() !== '')
+		.map(item => ({
+			question: (item.question as string).trim(),
+			sources: toStringList(item.sources).map(stripWikiLink),
+			passages: toStringList(item.passages),
+			answerContains: toStringList(item.answerContains)
+		}));
+	return { name: typeof data?.name === 'string' ? data.name : name, questions };
+}
+
+/**
+ * Reads a golden set from a note. Every heading is a question, followed by
+ * list items naming what should be found:
+ *
+ *     ## How do we deploy?
+ *     - source: [[Deployment]]
+ *     - passage: blue-green deployment
+ *     - answer: blue-green
+ */
+export function parseGoldenSetNote(name: string, content: string): GoldenSet {
+	const body = content.substring(splitFrontmatter(content).bodyOffset);
+	const questions: GoldenQuestion[] = [];
+	let current: GoldenQuestion | null = null;
+
+	for (const line of body.split('\n')) {
+		const heading = /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+		if (heading) {
+			current = { question: heading[1], sources: [], passages: [], answerContains: [] };
+			questions.push(current);
+			continue;
+		}
+
+		const item = /^\s*[-*+]\s+(source|passage|answer):\s*(.+?)\s*$/i.exec(line);
+		if (!item || !current) continue;
+		const value = item[2].replace(/^"(.*)"$/, '$1');
+		switch (item[1].toLowerCase()) {
+			case 'source': current.sources.push(stripWikiLink(value)); break;
+			case 'passage': current.passages.push(value); break;
+			case 'answer': current.answerContains.push(value); break;
+		}
+	}
+
+	return { name, questions: questions.filter(question => question.sources.length + question.passages.length + question.answerContains.length > 0) };
+}
+
+export function parseGoldenSet(path: string, content: string): GoldenSet {
+	const name = path.replace(/^.*\//, '').replace(/\.(md|json)$/, '');
+	return path.endsWith('.json') ? parseGoldenSetJson(name, content) : parseGoldenSetNote(name, content);
+}
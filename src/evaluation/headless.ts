@@ -0,0 +1,51 @@
+import { Document } from '@langchain/core/documents';
+import type { Embeddings } from '@langchain/core/embeddings';
+import { MemoryVectorStore } from 'langchain/vectorstores/memory';
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
+import type { DocumentChunk, GeminiRAGSettings } from '../types';
+import { MarkdownChunker } from '../markdown-chunker';
+import { locateChunks } from '../chunk-locator';
+import { KeywordIndex } from '../keyword-index';
+import { HybridRetriever, getRetrievalOptions } from '../retriever';
+import { DeterministicEmbeddings } from './deterministic-embeddings';
+
+export interface HeadlessNote {
+	path: string;
+	content: string;
+}
+
+/**
+ * Indexes the given notes in memory, chunked with the settings the way the
+ * plugin does, and returns a search over them. Uses the deterministic
+ * embedder unless another one is given, so evaluations can run without
+ * Obsidian or an API key.
+ */
+export async function createHeadlessSearch(notes: HeadlessNote[], settings: GeminiRAGSettings,
+	embeddings: Embeddings = new DeterministicEmbeddings()): Promise<(question: string) => Promise<DocumentChunk[]>> {
+	const markdownChunker = new MarkdownChunker({ chunkSize: settings.chunkSize, chunkOverlap: settings.chunkOverlap });
+	const textSplitter = new RecursiveCharacterTextSplitter({ chunkSize: settings.chunkSize, chunkOverlap: settings.chunkOverlap });
+
+	const documents: Document[] = [];
+	for (const note of notes) {
+		const fileName = note.path.replace(/^.*\//, '');
+		let chunks;
+		if (settings.chunkingStrategy === 'markdown') {
+			chunks = markdownChunker.split(note.content, fileName.replace(/\.md$/, ''));
+		} else {
+			const texts = await textSplitter.splitText(note.content);
+			const locations = locateChunks(note.content, texts);
+			chunks = texts.map((content, index) => ({ content, location: locations[index] }));
+		}
+		chunks.forEach((chunk, index) => documents.push(new Document({
+			pageContent: chunk.content,
+			metadata: { source: note.path, fileName, ...chunk.location, tags: [] },
+			id: `${note.path}-${index}`
+		})));
+	}
+
+	const vectorStore = new MemoryVectorStore(embeddings);
+	await vectorStore.addVectors(await embeddings.embedDocuments(documents.map(doc => doc.pageContent)), documents);
+	const retriever = new HybridRetriever(vectorStore, KeywordIndex.fromDocuments(documents));
+
+	return (question: string) => retriever.search(question, getRetrievalOptions(settings));
+}
@@ -0,0 +1,95 @@
+import type { DocumentChunk } from '../types';
+import { EvaluationReport, QuestionResult, hasRetrievalExpectations } from './evaluator';
+
+// Settings that affect retrieval, listed in the report so runs can be compared
+export type EvaluationConfig = Record<string, string | number | boolean>;
+
+const score = (value: number) => value.toFixed(2);
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const check = (passed: boolean) => passed ? '✅' : '❌';
+
+function formatChunk(chunk: DocumentChunk): string {
+	const section = chunk.headingPath && chunk.headingPath.length > 0 ? ` › ${chunk.headingPath.join(' › ')}` : '';
+	return `${chunk.filePath}${section}`;
+}
+
+function formatQuestion(result: QuestionResult, index: number, k: number): string[] {
+	const { question } = result;
+	const lines = [`### ${index + 1}. ${question.question}`, ''];
+
+	if (result.error) {
+		lines.push(`> [!error] ${result.error}`, '');
+		return lines;
+	}
+
+	if (hasRetrievalExpectations(question)) {
+		lines.push(`Recall@${k}: **${score(result.recall)}** · Reciprocal rank: **${score(result.reciprocalRank)}**`, '');
+	}
+	if (result.missing.length > 0) {
+		lines.push(`Not found: ${result.missing.map(item => `\`${item}\``).join(', ')}`, '');
+	}
+
+	lines.push('Retrieved:');
+	if (result.retrieved.length === 0) lines.push('- (nothing)');
+	result.retrieved.slice(0, k).forEach((chunk, rank) => {
+		const relevant = result.relevantRanks.includes(rank + 1);
+		lines.push(`${rank + 1}. ${relevant ? '✅ ' : ''}${formatChunk(chunk)}`);
+	});
+	lines.push('');
+
+	const groundedness = result.groundedness;
+	if (groundedness) {
+		lines.push(`Answer: ${groundedness.grounded ? 'grounded ✅' : 'not grounded ❌'}`);
+		lines.push(`- ${check(groundedness.hasCitations)} cites its sources`);
+		lines.push(`- ${check(groundedness.validCitations)} all citations refer to given sources`);
+		if (groundedness.citesExpectedSource !== null) {
+			lines.push(`- ${check(groundedness.citesExpectedSource)} cites an expected source`);
+		}
+		if (question.answerContains.length > 0) {
+			const missing = groundedness.missingPhrases;
+			lines.push(`- ${check(missing.length === 0)} contains the expected phrases${missing.length > 0 ? ` (missing: ${missing.join(', ')})` : ''}`);
+		}
+		lines.push('', ...(result.answer ?? '').trim().split('\n').map(line => `> ${line}`), '');
+	}
+
+	return lines;
+}
+
+/**
+ * Renders an evaluation run as a note: the summary metrics, the settings
+ * they were measured with, then every question with what was retrieved.
+ */
+export function formatEvaluationReport(report: EvaluationReport, config: EvaluationConfig, goldenSetPath: string): string {
+	const lines = [
+		'---',
+		`created: ${new Date(report.startedAt).toISOString()}`,
+		`golden_set: "${goldenSetPath}"`,
+		`recall_at_k: ${score(report.recallAtK)}`,
+		`mrr: ${score(report.mrr)}`,
+		'---',
+		'',
+		`# Evaluation: ${report.name}`,
+		'',
+		'| Metric | Value |',
+		'| --- | --- |',
+		`| Questions | ${report.results.length} |`,
+		`| Recall@${report.k} | ${score(report.recallAtK)} |`,
+		`| MRR | ${score(report.mrr)} |`,
+		`| Hit rate | ${percent(report.hitRate)} |`
+	];
+	if (report.groundedRate !== null) {
+		lines.push(`| Grounded answers | ${percent(report.groundedRate)} |`);
+	}
+	const errors = report.results.filter(result => result.error).length;
+	if (errors > 0) lines.push(`| Failed questions | ${errors} |`);
+	lines.push(`| Duration | ${(report.duration / 1000).toFixed(1)} s |`, '');
+
+	lines.push('## Settings', '', '| Setting | Value |', '| --- | --- |');
+	for (const [name, value] of Object.entries(config)) {
+		lines.push(`| ${name} | ${value} |`);
+	}
+	lines.push('', '## Questions', '');
+
+	report.results.forEach((result, index) => lines.push(...formatQuestion(result, index, report.k)));
+	return lines.join('\n');
+}
@@ -0,0 +1,70 @@
+import { ContentExtractor, ExtractedSection } from './types';
+
+// The subset of the JSON Canvas format that carries text
+interface CanvasNode {
+	id: string;
+	type: 'text' | 'file' | 'link' | 'group';
+	text?: string;
+	file?: string;
+	url?: string;
+	label?: string;
+}
+
+interface CanvasEdge {
+	fromNode: string;
+	toNode: string;
+	label?: string;
+}
+
+interface CanvasData {
+	nodes?: CanvasNode[];
+	edges?: CanvasEdge[];
+}
+
+// Longer first lines are cut off in citations
+const LABEL_LENGTH = 40;
+
+function nodeText(node: CanvasNode): string {
+	switch (node.type) {
+		case 'text': return node.text ?? '';
+		case 'file': return node.file ? `Embedded file: ${node.file}` : '';
+		case 'link': return node.url ? `Link: ${node.url}` : '';
+		case 'group': return node.label ? `Group: ${node.label}` : '';
+		default: return '';
+	}
+}
+
+function nodeLabel(node: CanvasNode, text: string): string {
+	const firstLine = (node.type === 'group' ? node.label : text.split('\n').find(line => line.trim()))?.replace(/^#+\s*/, '').trim() ?? node.id;
+	return firstLine.length > LABEL_LENGTH ? `${firstLine.substring(0, LABEL_LENGTH - 1)}…` : firstLine;
+}
+
+/**
+ * One section per canvas card. Labelled arrows are added to the card they
+ * start from, so connections between cards can be found as well.
+ */
+export const canvasExtractor: ContentExtractor = {
+	id: 'canvas',
+	name: 'Canvas cards',
+	extensions: ['canvas'],
+	isEnabled: (settings) => settings.indexCanvases,
+	extract: async (file, data) => {
+		const canvas: CanvasData = JSON.parse(new TextDecoder().decode(data) || '{}');
+		const nodes = canvas.nodes ?? [];
+		const texts = new Map(nodes.map(node => [node.id, nodeText(node).trim()]));
+
+		for (const edge of canvas.edges ?? []) {
+			const from = texts.get(edge.fromNode);
+			const to = texts.get(edge.toNode);
+			if (from === undefined || !edge.label || !to) continue;
+			texts.set(edge.fromNode, `${from}\n→ ${edge.label}: ${to.split('\n')[0]}`.trim());
+		}
+
+		const sections: ExtractedSection[] = [];
+		for (const node of nodes) {
+			const text = texts.get(node.id);
+			if (text) sections.push({ text, nodeId: node.id, label: nodeLabel(node, text) });
+		}
+		return sections;
+	}
+};
@@ -0,0 +1,45 @@
+import { arrayBufferToBase64 } from 'obsidian';
+import { HumanMessage } from '@langchain/core/messages';
+import { ContentExtractor } from './types';
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+const MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	webp: 'image/webp'
+};
+
+// Larger images are rejected by the APIs when sent inline
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const DESCRIBE_PROMPT = 'Describe this image for a search index. Start with a one-sentence caption, then transcribe all readable text in it exactly as written. Answer in plain text without any introduction.';
+
+/**
+ * Captions images and transcribes the text in them with a vision-capable
+ * chat model, so screenshots and photos of whiteboards can be searched.
+ */
+export const imageExtractor: ContentExtractor = {
+	id: 'image',
+	name: 'Image captions and text (vision model)',
+	extensions: IMAGE_EXTENSIONS,
+	isEnabled: (settings) => settings.imageIndexing === 'vision',
+	extract: async (file, data, context) => {
+		if (data.byteLength > MAX_IMAGE_BYTES) {
+			throw new Error(`${file.name} is too large to describe (${Math.round(data.byteLength / 1024 / 1024)} MB)`);
+		}
+
+		const message = new HumanMessage({
+			content: [
+				{ type: 'text', text: DESCRIBE_PROMPT },
+				{ type: 'image_url', image_url: `data:${MIME_TYPES[file.extension.toLowerCase()]};base64,${arrayBufferToBase64(data)}` }
+			]
+		});
+		const response = await context.getVisionModel().invoke([message]);
+		const text = (typeof response.content === 'string'
+			? response.content
+			: response.content.map(part => ('text' in part ? part.text : '')).join('')).trim();
+		return text ? [{ text, label: 'Image' }] : [];
+	}
+};
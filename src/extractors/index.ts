@@ -0,0 +1,21 @@
+import { pdfExtractor } from './pdf';
+import { canvasExtractor } from './canvas';
+import { imageExtractor } from './image';
+import { mockImageExtractor } from './mock';
+import { ContentExtractor } from './types';
+import type { GeminiRAGSettings } from '../types';
+
+export * from './types';
+
+export const EXTRACTORS: ContentExtractor[] = [
+	pdfExtractor,
+	canvasExtractor,
+	imageExtractor,
+	mockImageExtractor
+];
+
+/** The enabled extractor for a file extension, if any. Notes are not handled by extractors. */
+export function getExtractor(extension: string, settings: GeminiRAGSettings): ContentExtractor | undefined {
+	const normalized = extension.toLowerCase();
+	return EXTRACTORS.find(extractor => extractor.isEnabled(settings) && extractor.extensions.includes(normalized));
+}
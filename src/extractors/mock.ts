@@ -0,0 +1,21 @@
+import { ContentExtractor } from './types';
+import { IMAGE_EXTENSIONS } from './image';
+
+/**
+ * Stands in for the vision model when image indexing is set to "mock". The
+ * description is made up from the file name and size without any request,
+ * so extraction, chunking and citations can be tried offline.
+ */
+export const mockImageExtractor: ContentExtractor = {
+	id: 'mock-image',
+	name: 'Image placeholder text (mock)',
+	extensions: IMAGE_EXTENSIONS,
+	isEnabled: (settings) => settings.imageIndexing === 'mock',
+	extract: async (file, data) => {
+		const words = file.basename.replace(/[-_.]+/g, ' ').trim();
+		return [{
+			text: `Mock description of the image ${file.name}: ${words}. ${data.byteLength} bytes, ${file.extension.toUpperCase()} format.`,
+			label: 'Image'
+		}];
+	}
+};
@@ -0,0 +1,52 @@
+import { loadPdfJs } from 'obsidian';
+import { ContentExtractor, ExtractedSection } from './types';
+
+// The parts of pdf.js used here; Obsidian's bundled copy is untyped
+interface PdfTextItem {
+	str?: string;
+	hasEOL?: boolean;
+}
+
+interface PdfPage {
+	getTextContent(): Promise<{ items: PdfTextItem[] }>;
+}
+
+interface PdfDocument {
+	numPages: number;
+	getPage(pageNumber: number): Promise<PdfPage>;
+	destroy(): Promise<void>;
+}
+
+/**
+ * Reads the text layer of every page with the pdf.js copy that ships with
+ * Obsidian. Scanned PDFs without a text layer produce no sections.
+ */
+export const pdfExtractor: ContentExtractor = {
+	id: 'pdf',
+	name: 'PDF text',
+	extensions: ['pdf'],
+	isEnabled: (settings) => settings.indexPdfs,
+	extract: async (file, data) => {
+		const pdfjs = await loadPdfJs();
+		// pdf.js takes ownership of the buffer it is given
+		const pdf: PdfDocument = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+		const sections: ExtractedSection[] = [];
+		try {
+			for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+				const page = await pdf.getPage(pageNumber);
+				const content = await page.getTextContent();
+				const text = content.items
+					.map(item => `${item.str ?? ''}${item.hasEOL ? '\n' : ' '}`)
+					.join('')
+					.replace(/[ \t]+/g, ' ')
+					.replace(/\n{3,}/g, '\n\n')
+					.trim();
+				if (text) sections.push({ text, page: pageNumber, label: `Page ${pageNumber}` });
+			}
+		} finally {
+			await pdf.destroy();
+		}
+		return sections;
+	}
+};
@@ -0,0 +1,34 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { TFile } from 'obsidian';
+import type { GeminiRAGSettings } from '../types';
+
+export type ExtractorId = 'pdf' | 'canvas' | 'image' | 'mock-image';
+
+// What the image extractor sends images to
+export type ImageIndexing = 'off' | 'vision' | 'mock';
+
+/** Text found in a file that is not a note, with where it was found. */
+export interface ExtractedSection {
+	text: string;
+	// 1-based PDF page
+	page?: number;
+	// Canvas node the text belongs to
+	nodeId?: string;
+	// Shown in citations, e.g. "Page 3" or the first line of a canvas card
+	label?: string;
+}
+
+export interface ExtractorContext {
+	settings: GeminiRAGSettings;
+	// Chat model used to describe images
+	getVisionModel(): BaseChatModel;
+}
+
+export interface ContentExtractor {
+	id: ExtractorId;
+	name: string;
+	// Lower-case file extensions without the dot
+	extensions: string[];
+	isEnabled(settings: GeminiRAGSettings): boolean;
+	extract(file: TFile, data: ArrayBuffer, context: ExtractorContext): Promise<ExtractedSection[]>;
+}
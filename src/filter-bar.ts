@@ -0,0 +1,93 @@
+import { App } from 'obsidian';
+import { RetrievalFilter, describeFilter, emptyFilter, isFilterEmpty, normalizeFolder, normalizeTag } from './query-filter';
+import { fillDatalist, getFolderSuggestions, getTagSuggestions } from './vault-suggestions';
+
+let filterBarCount = 0;
+
+/**
+ * Collapsible folder/tag/date filter inputs shared by the chat view and the
+ * search modal. Values can also be typed inline in the query instead.
+ */
+export class FilterBar {
+	app: App;
+	containerEl: HTMLDetailsElement;
+	summaryEl: HTMLElement;
+	folderInput: HTMLInputElement;
+	tagInput: HTMLInputElement;
+	afterInput: HTMLInputElement;
+	beforeInput: HTMLInputElement;
+	folderList: HTMLDataListElement;
+	tagList: HTMLDataListElement;
+
+	constructor(app: App, parent: HTMLElement) {
+		this.app = app;
+		const id = ++filterBarCount;
+
+		this.containerEl = parent.createEl('details', { cls: 'rag-filter-bar' });
+		this.summaryEl = this.containerEl.createEl('summary', { text: 'Filters' });
+
+		const fields = this.containerEl.createDiv('rag-filter-fields');
+
+		this.folderList = fields.createEl('datalist', { attr: { id: `rag-filter-folders-${id}` } });
+		this.folderInput = this.createField(fields, 'Folders', {
+			type: 'text',
+			placeholder: 'Projects/, Work/Meetings',
+			list: this.folderList.id
+		});
+
+		this.tagList = fields.createEl('datalist', { attr: { id: `rag-filter-tags-${id}` } });
+		this.tagInput = this.createField(fields, 'Tags', {
+			type: 'text',
+			placeholder: '#meeting, #project',
+			list: this.tagList.id
+		});
+
+		this.afterInput = this.createField(fields, 'Modified after', { type: 'date' });
+		this.beforeInput = this.createField(fields, 'Modified before', { type: 'date' });
+
+		const clearButton = fields.createEl('button', { text: 'Clear filters', cls: 'rag-filter-clear' });
+		clearButton.addEventListener('click', () => this.clear());
+
+		// Suggestions are collected when the filters are opened, so they are never stale
+		this.containerEl.addEventListener('toggle', () => {
+			if (this.containerEl.open) this.loadSuggestions();
+		});
+		[this.folderInput, this.tagInput, this.afterInput, this.beforeInput].forEach(input => {
+			input.addEventListener('change', () => this.updateSummary());
+		});
+	}
+
+	createField(parent: HTMLElement, label: string, attr: Record<string, string>): HTMLInputElement {
+		const field = parent.createDiv('rag-filter-field');
+		field.createEl('label', { text: label });
+		return field.createEl('input', { attr });
+	}
+
+	getFilter(): RetrievalFilter {
+		const filter = emptyFilter();
+		filter.folders = this.folderInput.value.split(',').map(normalizeFolder).filter(folder => folder.length > 0);
+		filter.tags = this.tagInput.value.split(',').map(normalizeTag).filter(tag => tag.length > 0);
+		if (this.afterInput.value) filter.after = this.afterInput.value;
+		if (this.beforeInput.value) filter.before = this.beforeInput.value;
+		return filter;
+	}
+
+	clear() {
+		this.folderInput.value = '';
+		this.tagInput.value = '';
+		this.afterInput.value = '';
+		this.beforeInput.value = '';
+		this.updateSummary();
+	}
+
+	updateSummary() {
+		const filter = this.getFilter();
+		this.summaryEl.setText(isFilterEmpty(filter) ? 'Filters' : `Filters: ${describeFilter(filter)}`);
+		this.containerEl.toggleClass('is-active', !isFilterEmpty(filter));
+	}
+
+	loadSuggestions() {
+		fillDatalist(this.folderList, getFolderSuggestions(this.app));
+		fillDatalist(this.tagList, getTagSuggestions(this.app));
+	}
+}
@@ -0,0 +1,135 @@
+import { App, Modal, setIcon } from 'obsidian';
+import type GeminiRAGPlugin from '../main';
+import { BuildFileState, IndexBuilder } from './index-builder';
+
+const STATUS_ICONS: Record<BuildFileState['status'], string> = {
+	pending: 'circle',
+	embedding: 'loader',
+	done: 'check',
+	skipped: 'minus',
+	failed: 'x'
+};
+
+export class IndexBuildModal extends Modal {
+	plugin: GeminiRAGPlugin;
+	builder: IndexBuilder;
+	progressEl: HTMLProgressElement;
+	summaryEl: HTMLElement;
+	currentEl: HTMLElement;
+	cancelButton: HTMLButtonElement;
+	retryButton: HTMLButtonElement;
+	failedEl: HTMLElement;
+	rows: Map<string, HTMLElement> = new Map();
+	unsubscribe: (() => void) | null = null;
+
+	constructor(app: App, plugin: GeminiRAGPlugin, builder: IndexBuilder) {
+		super(app);
+		this.plugin = plugin;
+		this.builder = builder;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('index-build-modal');
+
+		contentEl.createEl('h2', { text: 'Building embeddings' });
+		contentEl.createEl('p', {
+			text: 'The build continues when this window is closed. Click the status bar to reopen it.',
+			cls: 'setting-item-description'
+		});
+
+		this.progressEl = contentEl.createEl('progress', { cls: 'index-build-progress' });
+		this.summaryEl = contentEl.createDiv({ cls: 'index-build-summary' });
+		this.currentEl = contentEl.createDiv({ cls: 'index-build-current' });
+
+		const buttons = contentEl.createDiv({ cls: 'index-build-buttons' });
+		this.cancelButton = buttons.createEl('button', { text: 'Cancel' });
+		this.cancelButton.addEventListener('click', () => this.builder.cancel());
+		this.retryButton = buttons.createEl('button', { text: 'Retry failed files', cls: 'mod-cta' });
+		this.retryButton.addEventListener('click', () => this.plugin.retryFailedBuildFiles());
+
+		this.failedEl = contentEl.createDiv({ cls: 'index-build-failed' });
+
+		const listEl = contentEl.createDiv({ cls: 'index-build-files' });
+		for (const state of this.builder.files.values()) {
+			const row = listEl.createDiv({ cls: 'index-build-file' });
+			row.createSpan({ cls: 'index-build-file-icon' });
+			row.createSpan({ text: state.path, cls: 'index-build-file-path' });
+			this.rows.set(state.path, row);
+			this.updateRow(state);
+		}
+
+		this.unsubscribe = this.builder.onProgress((path) => {
+			const state = path ? this.builder.files.get(path) : undefined;
+			if (state) this.updateRow(state);
+			this.updateSummary();
+		});
+		this.updateSummary();
+	}
+
+	updateRow(state: BuildFileState) {
+		const row = this.rows.get(state.path);
+		if (!row) return;
+		row.className = `index-build-file is-${state.status}`;
+		row.title = state.error ?? '';
+		const icon = row.querySelector('.index-build-file-icon') as HTMLElement;
+		setIcon(icon, STATUS_ICONS[state.status]);
+	}
+
+	updateSummary() {
+		const progress = this.builder.getProgress();
+		const running = this.builder.isRunning();
+
+		this.progressEl.max = Math.max(progress.total, 1);
+		this.progressEl.value = progress.done + progress.skipped + progress.failed;
+
+		let summary = `${progress.done} of ${progress.total} files embedded`;
+		if (progress.skipped > 0) summary += `, ${progress.skipped} excluded`;
+		if (progress.failed > 0) summary += `, ${progress.failed} failed`;
+		if (progress.eta !== null) summary += ` · about ${formatDuration(progress.eta)} left`;
+		this.summaryEl.setText(summary);
+
+		if (running && this.builder.cancelled) {
+			this.currentEl.setText('Stopping after the current file...');
+		} else if (running && progress.current) {
+			this.currentEl.setText(`Embedding ${progress.current}`);
+		} else if (this.builder.cancelled) {
+			this.currentEl.setText('Cancelled. Progress is saved and the next rebuild continues from here.');
+		} else {
+			this.currentEl.setText(running ? 'Starting...' : 'Finished');
+		}
+
+		this.cancelButton.disabled = !running || this.builder.cancelled;
+		const failed = this.builder.getFailedFiles();
+		this.retryButton.toggle(failed.length > 0);
+		this.retryButton.disabled = running;
+
+		this.failedEl.empty();
+		if (failed.length > 0) {
+			this.failedEl.createEl('h4', { text: 'Failed files' });
+			const list = this.failedEl.createEl('ul');
+			for (const state of failed) {
+				const item = list.createEl('li');
+				item.createSpan({ text: state.path, cls: 'index-build-file-path' });
+				if (state.error) item.createSpan({ text: `: ${state.error}`, cls: 'index-build-error' });
+			}
+		}
+	}
+
+	onClose() {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.rows.clear();
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) return `${minutes} min`;
+	return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
@@ -0,0 +1,359 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { Embeddings } from '@langchain/core/embeddings';
+import type { Document } from '@langchain/core/documents';
+import { IndexInfo, IndexStore, StoredVector, findIndexMismatches } from './index-store';
+import { ManifestEntry } from './index-manifest';
+import { RateLimiter } from './rate-limiter';
+import { CachedEmbeddings } from './embedding-cache';
+
+// Chunks sent per embedding request, below every provider's batch limit
+const EMBEDDING_BATCH_SIZE = 50;
+// Progress is written to disk after this many files or this much time, whichever comes first
+const CHECKPOINT_FILES = 20;
+const CHECKPOINT_INTERVAL_MS = 30 * 1000;
+const PROGRESS_FILE = 'progress.json';
+// Every checkpoint writes the files finished since the previous one to a new numbered shard
+const SHARD_PREFIX = 'shard-';
+
+// 'skipped' files were read but are excluded from the index
+export type BuildFileStatus = 'pending' | 'embedding' | 'done' | 'skipped' | 'failed';
+
+export interface BuildFileState {
+	path: string;
+	mtime: number;
+	status: BuildFileStatus;
+	hash?: string;
+	chunkIds: string[];
+	error?: string;
+}
+
+export interface BuildProgress {
+	total: number;
+	done: number;
+	skipped: number;
+	failed: number;
+	current: string | null;
+	// Estimated milliseconds until all pending files are embedded
+	eta: number | null;
+}
+
+export interface IndexBuilderOptions {
+	embeddings: Embeddings;
+	// Directory for partial progress, removed once the build is finished
+	checkpointDir: string;
+	info: IndexInfo;
+	requestsPerMinute: number;
+	// Reads a file and splits it into chunks with ids, or returns null for excluded files
+	loadFile: (path: string) => Promise<{ hash: string; documents: Document[] } | null>;
+}
+
+interface ProgressData {
+	files: Record<string, { mtime: number; hash?: string; chunkIds: string[] }>;
+}
+
+/**
+ * Embeds a batch, rejecting as soon as the signal is aborted. Providers take
+ * no signal for embeddings, so a request already sent finishes in the
+ * background and its result is dropped.
+ */
+function embedUntilAborted(embeddings: Embeddings, texts: string[], signal: AbortSignal): Promise<number[][]> {
+	if (signal.aborted) return Promise.reject(new Error('Cancelled'));
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(new Error('Cancelled'));
+		signal.addEventListener('abort', onAbort, { once: true });
+		embeddings.embedDocuments(texts).then(resolve, reject)
+			.finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Embeds a list of files one at a time under a request rate limit. Finished
+ * files are checkpointed to disk so a cancelled or crashed build continues
+ * where it stopped, and failed files can be retried without starting over.
+ */
+export class IndexBuilder {
+	options: IndexBuilderOptions;
+	files: Map<string, BuildFileState> = new Map();
+	vectors: Map<string, StoredVector[]> = new Map();
+	limiter: RateLimiter;
+	// Finished files not written to a checkpoint shard yet
+	unsaved: Set<string> = new Set();
+	nextShard = 0;
+	controller: AbortController | null = null;
+	cancelled = false;
+	// Set by the plugin once the result has replaced the index
+	applied = false;
+	current: string | null = null;
+	listeners: Set<(path: string | null) => void> = new Set();
+	// Timing of the current run, used for the ETA
+	runStarted = 0;
+	runCompleted = 0;
+
+	constructor(options: IndexBuilderOptions) {
+		this.options = options;
+		this.limiter = new RateLimiter(options.requestsPerMinute);
+	}
+
+	/**
+	 * Sets up the file list and restores files from an earlier interrupted
+	 * build that have not changed since. Returns the number of restored files.
+	 */
+	async resume(files: { path: string; mtime: number }[]): Promise<number> {
+		this.files.clear();
+		this.vectors.clear();
+		this.unsaved.clear();
+		this.nextShard = 0;
+		for (const file of files) {
+			this.files.set(file.path, { path: file.path, mtime: file.mtime, status: 'pending', chunkIds: [] });
+		}
+
+		const checkpoint = await this.readCheckpoint();
+		if (!checkpoint) return 0;
+		this.nextShard = checkpoint.nextShard;
+
+		let restored = 0;
+		for (const [path, saved] of Object.entries(checkpoint.progress.files)) {
+			const state = this.files.get(path);
+			if (!state || state.mtime !== saved.mtime) continue;
+			const vectors = saved.chunkIds.map(id => checkpoint.vectors.get(id));
+			if (vectors.some(vector => !vector)) continue;
+
+			this.files.set(path, { ...state, status: 'done', hash: saved.hash, chunkIds: saved.chunkIds });
+			this.vectors.set(path, vectors as StoredVector[]);
+			restored++;
+		}
+		return restored;
+	}
+
+	/**
+	 * Embeds all pending files. Stops early without an error when cancelled;
+	 * files that fail are marked and skipped.
+	 */
+	async run(): Promise<void> {
+		this.controller = new AbortController();
+		this.cancelled = false;
+		this.runStarted = Date.now();
+		this.runCompleted = 0;
+
+		let sinceCheckpoint = 0;
+		let lastCheckpoint = Date.now();
+
+		try {
+			for (const state of Array.from(this.files.values())) {
+				if (state.status !== 'pending') continue;
+				if (this.controller.signal.aborted) break;
+
+				await this.embedFile(state, this.controller.signal);
+
+				sinceCheckpoint++;
+				if (sinceCheckpoint >= CHECKPOINT_FILES || Date.now() - lastCheckpoint >= CHECKPOINT_INTERVAL_MS) {
+					await this.writeCheckpoint();
+					sinceCheckpoint = 0;
+					lastCheckpoint = Date.now();
+				}
+			}
+		} finally {
+			this.current = null;
+			this.controller = null;
+			if (sinceCheckpoint > 0) await this.writeCheckpoint();
+			this.notify(null);
+		}
+	}
+
+	async embedFile(state: BuildFileState, signal: AbortSignal) {
+		this.current = state.path;
+		state.status = 'embedding';
+		state.error = undefined;
+		this.notify(state.path);
+
+		try {
+			const loaded = await this.options.loadFile(state.path);
+			if (!loaded) {
+				state.status = 'skipped';
+				this.notify(state.path);
+				return;
+			}
+
+			const { hash, documents } = loaded;
+			const vectors: StoredVector[] = [];
+			for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+				const batch = documents.slice(i, i + EMBEDDING_BATCH_SIZE);
+				const texts = batch.map(doc => doc.pageContent);
+				// Batches answered from the embedding cache send no request
+				if (!this.isCached(texts)) await this.limiter.wait(signal);
+				const embeddings = await embedUntilAborted(this.options.embeddings, texts, signal);
+				batch.forEach((doc, index) => vectors.push({
+					id: doc.id as string,
+					content: doc.pageContent,
+					metadata: doc.metadata,
+					embedding: embeddings[index]
+				}));
+			}
+
+			this.vectors.set(state.path, vectors);
+			state.hash = hash;
+			state.chunkIds = vectors.map(vector => vector.id);
+			state.status = 'done';
+			this.unsaved.add(state.path);
+			this.runCompleted++;
+		} catch (error) {
+			if (signal.aborted) {
+				state.status = 'pending';
+			} else {
+				console.error(`Error embedding ${state.path}:`, error);
+				state.status = 'failed';
+				state.error = error instanceof Error ? error.message : String(error);
+			}
+		}
+		this.notify(state.path);
+	}
+
+	isCached(texts: string[]): boolean {
+		const embeddings = this.options.embeddings;
+		return embeddings instanceof CachedEmbeddings && embeddings.hasAll(texts);
+	}
+
+	/** Stops right away; the file being embedded stays pending. */
+	cancel() {
+		if (!this.controller) return;
+		this.cancelled = true;
+		this.controller.abort();
+		this.notify(null);
+	}
+
+	isRunning(): boolean {
+		return this.controller !== null;
+	}
+
+	/** Marks failed files as pending again, to be embedded by the next run. */
+	resetFailed(): number {
+		let reset = 0;
+		for (const state of this.files.values()) {
+			if (state.status !== 'failed') continue;
+			state.status = 'pending';
+			state.error = undefined;
+			reset++;
+		}
+		return reset;
+	}
+
+	getProgress(): BuildProgress {
+		let done = 0;
+		let skipped = 0;
+		let failed = 0;
+		let pending = 0;
+		for (const state of this.files.values()) {
+			if (state.status === 'done') done++;
+			else if (state.status === 'skipped') skipped++;
+			else if (state.status === 'failed') failed++;
+			else pending++;
+		}
+
+		let eta: number | null = null;
+		if (this.isRunning() && this.runCompleted > 0) {
+			eta = (Date.now() - this.runStarted) / this.runCompleted * pending;
+		}
+
+		return { total: this.files.size, done, skipped, failed, current: this.current, eta };
+	}
+
+	getFailedFiles(): BuildFileState[] {
+		return Array.from(this.files.values()).filter(state => state.status === 'failed');
+	}
+
+	/** Vectors of all finished files, in file order. */
+	getVectors(): StoredVector[] {
+		const vectors: StoredVector[] = [];
+		for (const state of this.files.values()) {
+			if (state.status === 'done') vectors.push(...(this.vectors.get(state.path) ?? []));
+		}
+		return vectors;
+	}
+
+	getManifestEntries(): ManifestEntry[] {
+		return Array.from(this.files.values())
+			.filter(state => state.status === 'done')
+			.map(state => ({ path: state.path, mtime: state.mtime, hash: state.hash ?? '', chunkIds: state.chunkIds }));
+	}
+
+	/** Subscribes to progress changes. Returns a function that unsubscribes. */
+	onProgress(listener: (path: string | null) => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	notify(path: string | null) {
+		this.listeners.forEach(listener => listener(path));
+	}
+
+	/** Writes the files finished since the last checkpoint to a new shard. */
+	async writeCheckpoint() {
+		const progress: ProgressData = { files: {} };
+		const vectors: StoredVector[] = [];
+		for (const path of this.unsaved) {
+			const state = this.files.get(path);
+			if (!state || state.status !== 'done') continue;
+			progress.files[path] = { mtime: state.mtime, hash: state.hash, chunkIds: state.chunkIds };
+			vectors.push(...(this.vectors.get(path) ?? []));
+		}
+		if (Object.keys(progress.files).length === 0) return;
+
+		const dir = join(this.options.checkpointDir, `${SHARD_PREFIX}${this.nextShard}`);
+		try {
+			// Always unquantized, the final index is written from these vectors
+			await new IndexStore(dir).write(vectors, null, { ...this.options.info, quantization: 'float32' });
+			// Written last, a shard without it was cut off and is ignored
+			await fs.writeFile(join(dir, PROGRESS_FILE), JSON.stringify(progress));
+			this.nextShard++;
+			this.unsaved.clear();
+		} catch (error) {
+			console.error('Error saving build checkpoint:', error);
+		}
+	}
+
+	/**
+	 * Merges all checkpoint shards, later shards replacing files that were
+	 * embedded again. Shards made with other settings or cut off by a crash
+	 * are skipped, their files are embedded again.
+	 */
+	async readCheckpoint(): Promise<{ progress: ProgressData; vectors: Map<string, StoredVector>; nextShard: number } | null> {
+		let shards: number[];
+		try {
+			shards = (await fs.readdir(this.options.checkpointDir))
+				.filter(name => name.startsWith(SHARD_PREFIX))
+				.map(name => Number(name.substring(SHARD_PREFIX.length)))
+				.filter(shard => Number.isInteger(shard))
+				.sort((a, b) => a - b);
+		} catch (error) {
+			return null;
+		}
+		if (shards.length === 0) return null;
+
+		const progress: ProgressData = { files: {} };
+		const vectors = new Map<string, StoredVector>();
+		for (const shard of shards) {
+			const dir = join(this.options.checkpointDir, `${SHARD_PREFIX}${shard}`);
+			try {
+				const store = new IndexStore(dir);
+				const header = await store.readHeader();
+				if (!header || findIndexMismatches(header, this.options.info).length > 0) continue;
+
+				const shardProgress: ProgressData = JSON.parse(await fs.readFile(join(dir, PROGRESS_FILE), 'utf-8'));
+				for (const vector of await store.readVectors(header)) vectors.set(vector.id, vector);
+				Object.assign(progress.files, shardProgress.files);
+			} catch (error) {
+				continue;
+			}
+		}
+		return { progress, vectors, nextShard: shards[shards.length - 1] + 1 };
+	}
+
+	async clearCheckpoint() {
+		try {
+			await fs.rm(this.options.checkpointDir, { recursive: true, force: true });
+		} catch (error) {
+			console.error('Error removing build checkpoint:', error);
+		}
+	}
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+
+export interface ManifestEntry {
+	path: string;
+	mtime: number;
+	hash: string;
+	chunkIds: string[];
+}
+
+interface ManifestData {
+	version: number;
+	files: Record<string, ManifestEntry>;
+	timestamp: number;
+}
+
+const MANIFEST_VERSION = 1;
+
+export function hashContent(content: string | Uint8Array): string {
+	return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Tracks which version of every indexed file is currently in the vector store,
+ * so that only files whose content changed need to be re-embedded.
+ */
+export class IndexManifest {
+	files: Record<string, ManifestEntry> = {};
+	filePath: string;
+
+	constructor(filePath: string) {
+		this.filePath = filePath;
+	}
+
+	get(path: string): ManifestEntry | undefined {
+		return this.files[path];
+	}
+
+	set(entry: ManifestEntry) {
+		this.files[entry.path] = entry;
+	}
+
+	delete(path: string) {
+		delete this.files[path];
+	}
+
+	rename(oldPath: string, newPath: string) {
+		const entry = this.files[oldPath];
+		if (!entry) return;
+		delete this.files[oldPath];
+		this.files[newPath] = { ...entry, path: newPath };
+	}
+
+	clear() {
+		this.files = {};
+	}
+
+	paths(): string[] {
+		return Object.keys(this.files);
+	}
+
+	size(): number {
+		return this.paths().length;
+	}
+
+	async load(): Promise<boolean> {
+		try {
+			const data: ManifestData = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+			if (data.version !== MANIFEST_VERSION || !data.files) return false;
+			this.files = data.files;
+			return true;
+		} catch (error) {
+			this.files = {};
+			return false;
+		}
+	}
+
+	async save() {
+		const data: ManifestData = {
+			version: MANIFEST_VERSION,
+			files: this.files,
+			timestamp: Date.now()
+		};
+		try {
+			await fs.writeFile(this.filePath, JSON.stringify(data));
+		} catch (error) {
+			console.error('Error saving index manifest:', error);
+		}
+	}
+}
@@ -0,0 +1,54 @@
+import { App, Modal, Setting } from 'obsidian';
+import { IndexMismatch } from './index-store';
+
+export class IndexMismatchModal extends Modal {
+	mismatches: IndexMismatch[];
+	onRebuild: () => void;
+
+	constructor(app: App, mismatches: IndexMismatch[], onRebuild: () => void) {
+		super(app);
+		this.mismatches = mismatches;
+		this.onRebuild = onRebuild;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('index-mismatch-modal');
+
+		const incompatible = this.mismatches.some(mismatch => mismatch.incompatible);
+		contentEl.createEl('h2', { text: 'Embeddings need to be rebuilt' });
+		contentEl.createEl('p', {
+			text: incompatible
+				? 'The embeddings database was built with a different embedding model. Its vectors cannot be compared with new queries, so search and chat are disabled until it is rebuilt.'
+				: 'The embeddings database was built with different chunking settings. Search still works, but notes indexed from now on would be chunked differently than the rest.'
+		});
+
+		const table = contentEl.createEl('table', { cls: 'index-mismatch-table' });
+		const headerRow = table.createEl('tr');
+		['Setting', 'Index', 'Current'].forEach(text => headerRow.createEl('th', { text }));
+		for (const mismatch of this.mismatches) {
+			const row = table.createEl('tr');
+			row.createEl('td', { text: mismatch.setting });
+			row.createEl('td', { text: mismatch.indexed });
+			row.createEl('td', { text: mismatch.current });
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Later')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Rebuild now')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onRebuild();
+				}));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,93 @@
+import { normalizeFolder, normalizeTag } from './query-filter';
+
+export interface IndexRules {
+	// When not empty, only notes inside these folders are indexed
+	includeFolders: string[];
+	excludeFolders: string[];
+	// Glob patterns matched against the full path, e.g. `**/*.excalidraw.md`
+	excludePatterns: string[];
+	// Tags without '#', nested tags are excluded as well
+	excludeTags: string[];
+	// Frontmatter key that keeps a note out of the index when set to false
+	excludeFrontmatterKey: string;
+}
+
+const OPT_OUT_VALUES = new Set(['false', 'no', 'off']);
+
+/**
+ * Converts a glob to a regular expression. `**` matches across folders,
+ * `*` and `?` stay within one path segment, `{a,b}` matches alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	let inGroup = false;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*') {
+			if (pattern[i + 1] === '*') {
+				// '**/' also matches no folder at all
+				if (pattern[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 2;
+				} else {
+					source += '.*';
+					i++;
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			inGroup = true;
+			source += '(?:';
+		} else if (char === '}' && inGroup) {
+			inGroup = false;
+			source += ')';
+		} else if (char === ',' && inGroup) {
+			source += '|';
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/** Applies the folder and pattern rules, which only need the path. */
+export function isPathIncluded(path: string, rules: IndexRules): boolean {
+	const includeFolders = rules.includeFolders.map(normalizeFolder).filter(Boolean);
+	if (includeFolders.length > 0 && !includeFolders.some(folder => path.startsWith(folder))) {
+		return false;
+	}
+
+	const excludeFolders = rules.excludeFolders.map(normalizeFolder).filter(Boolean);
+	if (excludeFolders.some(folder => path.startsWith(folder))) {
+		return false;
+	}
+
+	return !rules.excludePatterns
+		.map(pattern => pattern.trim())
+		.filter(Boolean)
+		.some(pattern => globToRegExp(pattern).test(path));
+}
+
+/** Applies the tag and frontmatter rules to a note's metadata. */
+export function isNoteExcluded(
+	note: { frontmatter: Record<string, unknown> | null | undefined; tags: string[] },
+	rules: IndexRules
+): boolean {
+	const key = rules.excludeFrontmatterKey.trim();
+	if (key && note.frontmatter && key in note.frontmatter) {
+		const value = note.frontmatter[key];
+		if (value === false || (typeof value === 'string' && OPT_OUT_VALUES.has(value.trim().toLowerCase()))) {
+			return true;
+		}
+	}
+
+	const excludeTags = rules.excludeTags.map(normalizeTag).filter(Boolean);
+	if (excludeTags.length === 0) return false;
+	const tags = note.tags.map(normalizeTag);
+	return excludeTags.some(excluded => tags.some(tag => tag === excluded || tag.startsWith(`${excluded}/`)));
+}
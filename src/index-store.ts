@@ -0,0 +1,249 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { KeywordIndexData } from './keyword-index';
+
+export const INDEX_FORMAT = 'llm-rag-chat-index';
+export const INDEX_FORMAT_VERSION = 1;
+
+// 'int8' stores each vector as bytes plus one float scale, a quarter of the size of 'float32'
+export type VectorQuantization = 'float32' | 'int8';
+
+export interface IndexChunkingConfig {
+	strategy: string;
+	chunkSize: number;
+	chunkOverlap: number;
+}
+
+export interface IndexHeader {
+	format: string;
+	version: number;
+	embeddingProvider: string;
+	embeddingModel: string;
+	chunking: IndexChunkingConfig;
+	dimensions: number;
+	count: number;
+	quantization: VectorQuantization;
+	timestamp: number;
+}
+
+// Settings the index was built with, compared against the current settings
+export type IndexInfo = Pick<IndexHeader, 'embeddingProvider' | 'embeddingModel' | 'chunking' | 'quantization'>;
+
+export interface IndexMismatch {
+	setting: string;
+	indexed: string;
+	current: string;
+	// Vectors from a different embedding model are not comparable at all,
+	// other mismatches only make newly indexed chunks inconsistent
+	incompatible: boolean;
+}
+
+/**
+ * Lists the differences between the settings an index was built with and the
+ * current ones. Quantization is not compared since it only affects storage.
+ */
+export function findIndexMismatches(header: IndexHeader, current: IndexInfo): IndexMismatch[] {
+	const mismatches: IndexMismatch[] = [];
+	const compare = (setting: string, indexed: string | number | undefined, now: string | number, incompatible: boolean) => {
+		if (indexed === undefined || String(indexed) === String(now)) return;
+		mismatches.push({ setting, indexed: String(indexed), current: String(now), incompatible });
+	};
+
+	compare('Embedding provider', header.embeddingProvider, current.embeddingProvider, true);
+	compare('Embedding model', header.embeddingModel, current.embeddingModel, true);
+	compare('Chunking strategy', header.chunking?.strategy, current.chunking.strategy, false);
+	compare('Chunk size', header.chunking?.chunkSize, current.chunking.chunkSize, false);
+	compare('Chunk overlap', header.chunking?.chunkOverlap, current.chunking.chunkOverlap, false);
+
+	return mismatches;
+}
+
+export interface StoredChunk {
+	id: string;
+	content: string;
+	metadata: Record<string, unknown>;
+}
+
+export interface StoredVector extends StoredChunk {
+	embedding: number[];
+}
+
+const HEADER_FILE = 'header.json';
+const VECTORS_FILE = 'vectors.bin';
+const CHUNKS_FILE = 'chunks.json';
+const KEYWORDS_FILE = 'keywords.json';
+
+/**
+ * Packs vectors row by row. For int8 the quantized rows are followed by one
+ * float32 scale per vector, aligned to four bytes.
+ */
+export function encodeVectors(vectors: number[][], dimensions: number, quantization: VectorQuantization): Buffer {
+	if (quantization === 'float32') {
+		const data = new Float32Array(vectors.length * dimensions);
+		vectors.forEach((vector, row) => data.set(vector, row * dimensions));
+		return Buffer.from(data.buffer);
+	}
+
+	const quantizedLength = vectors.length * dimensions;
+	const scalesOffset = Math.ceil(quantizedLength / 4) * 4;
+	const buffer = new ArrayBuffer(scalesOffset + vectors.length * 4);
+	const quantized = new Int8Array(buffer, 0, quantizedLength);
+	const scales = new Float32Array(buffer, scalesOffset, vectors.length);
+
+	vectors.forEach((vector, row) => {
+		let max = 0;
+		for (const value of vector) max = Math.max(max, Math.abs(value));
+		const scale = max > 0 ? max / 127 : 1;
+		scales[row] = scale;
+		for (let i = 0; i < dimensions; i++) {
+			quantized[row * dimensions + i] = Math.round((vector[i] ?? 0) / scale);
+		}
+	});
+
+	return Buffer.from(buffer);
+}
+
+export function decodeVectors(buffer: Uint8Array, count: number, dimensions: number, quantization: VectorQuantization): number[][] {
+	// Typed array views need an aligned offset, so copy buffers that don't start at one
+	const aligned = buffer.byteOffset % 4 === 0 ? buffer : new Uint8Array(buffer);
+	const vectors: number[][] = [];
+
+	if (quantization === 'float32') {
+		const data = new Float32Array(aligned.buffer, aligned.byteOffset, count * dimensions);
+		for (let row = 0; row < count; row++) {
+			vectors.push(Array.from(data.subarray(row * dimensions, (row + 1) * dimensions)));
+		}
+		return vectors;
+	}
+
+	const quantizedLength = count * dimensions;
+	const scalesOffset = Math.ceil(quantizedLength / 4) * 4;
+	const quantized = new Int8Array(aligned.buffer, aligned.byteOffset, quantizedLength);
+	const scales = new Float32Array(aligned.buffer, aligned.byteOffset + scalesOffset, count);
+	for (let row = 0; row < count; row++) {
+		const vector = new Array<number>(dimensions);
+		for (let i = 0; i < dimensions; i++) {
+			vector[i] = quantized[row * dimensions + i] * scales[row];
+		}
+		vectors.push(vector);
+	}
+	return vectors;
+}
+
+function expectedVectorBytes(header: IndexHeader): number {
+	const values = header.count * header.dimensions;
+	return header.quantization === 'float32'
+		? values * 4
+		: Math.ceil(values / 4) * 4 + header.count * 4;
+}
+
+/**
+ * On-disk index: a small JSON header that can be read at startup, a binary
+ * vector blob, and separate JSON tables for chunk texts and the keyword index
+ * that are only read when the index is first used.
+ */
+export class IndexStore {
+	dir: string;
+
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	async readHeader(): Promise<IndexHeader | null> {
+		try {
+			const header: IndexHeader = JSON.parse(await fs.readFile(join(this.dir, HEADER_FILE), 'utf-8'));
+			if (header.format !== INDEX_FORMAT || header.version !== INDEX_FORMAT_VERSION) return null;
+			return header;
+		} catch (error) {
+			return null;
+		}
+	}
+
+	async readVectors(header: IndexHeader): Promise<StoredVector[]> {
+		const [chunksData, vectorData] = await Promise.all([
+			fs.readFile(join(this.dir, CHUNKS_FILE), 'utf-8'),
+			fs.readFile(join(this.dir, VECTORS_FILE))
+		]);
+		const chunks: StoredChunk[] = JSON.parse(chunksData);
+
+		if (chunks.length !== header.count || vectorData.byteLength !== expectedVectorBytes(header)) {
+			throw new Error('Index files are inconsistent with their header');
+		}
+
+		const embeddings = decodeVectors(vectorData, header.count, header.dimensions, header.quantization);
+		return chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] }));
+	}
+
+	async readKeywordIndex(): Promise<KeywordIndexData | null> {
+		try {
+			return JSON.parse(await fs.readFile(join(this.dir, KEYWORDS_FILE), 'utf-8'));
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Writes all index files. The header goes last, so an interrupted write
+	 * leaves the previous header describing counts the data no longer matches
+	 * and the index is rejected instead of loaded half-written.
+	 */
+	async write(
+		vectors: StoredVector[],
+		keywordIndex: KeywordIndexData | null,
+		info: IndexInfo
+	): Promise<IndexHeader> {
+		const dimensions = vectors.length > 0 ? vectors[0].embedding.length : 0;
+		const header: IndexHeader = {
+			format: INDEX_FORMAT,
+			version: INDEX_FORMAT_VERSION,
+			...info,
+			dimensions,
+			count: vectors.length,
+			timestamp: Date.now()
+		};
+
+		const chunks: StoredChunk[] = vectors.map(({ id, content, metadata }) => ({ id, content, metadata }));
+
+		await fs.mkdir(this.dir, { recursive: true });
+		await fs.writeFile(join(this.dir, VECTORS_FILE), encodeVectors(vectors.map(v => v.embedding), dimensions, info.quantization));
+		await fs.writeFile(join(this.dir, CHUNKS_FILE), JSON.stringify(chunks));
+		if (keywordIndex) {
+			await fs.writeFile(join(this.dir, KEYWORDS_FILE), JSON.stringify(keywordIndex));
+		} else {
+			// A keyword index left from earlier vectors would be loaded with these
+			await fs.rm(join(this.dir, KEYWORDS_FILE), { force: true });
+		}
+		await fs.writeFile(join(this.dir, HEADER_FILE), JSON.stringify(header, null, 2));
+		return header;
+	}
+
+	/**
+	 * Converts an embeddings.json written by earlier versions into this format
+	 * and removes it. The old file did not record how it was built, so it is
+	 * stamped with the given (current) settings. Returns the new header, or
+	 * null if there was nothing to convert.
+	 */
+	async migrateLegacyFile(
+		legacyPath: string,
+		info: IndexInfo
+	): Promise<IndexHeader | null> {
+		let data: string;
+		try {
+			data = await fs.readFile(legacyPath, 'utf-8');
+		} catch (error) {
+			return null;
+		}
+
+		const legacy = JSON.parse(data);
+		const vectors: StoredVector[] = (legacy.memoryVectors || []).map((vector: Partial<StoredVector>, index: number) => ({
+			id: vector.id ?? `legacy-${index}`,
+			content: vector.content ?? '',
+			metadata: vector.metadata ?? {},
+			embedding: vector.embedding ?? []
+		}));
+
+		const header = await this.write(vectors, legacy.keywordIndex ?? null, info);
+		await fs.unlink(legacyPath);
+		return header;
+	}
+}
@@ -0,0 +1,155 @@
+export interface KeywordIndexData {
+	version: number;
+	// Term frequencies of every indexed chunk, keyed by chunk ID
+	docs: Record<string, Record<string, number>>;
+}
+
+export interface KeywordMatch {
+	id: string;
+	score: number;
+}
+
+const KEYWORD_INDEX_VERSION = 1;
+
+/**
+ * Splits text into lowercase search terms. Compound identifiers such as
+ * `ERR-4012` or `user.name` are kept whole and also indexed by their parts,
+ * so exact codes match strongly while partial queries still find them.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	const matches = text.toLowerCase().match(/[\p{L}\p{N}_]+(?:[-.:/@][\p{L}\p{N}_]+)*/gu) || [];
+
+	for (const match of matches) {
+		terms.push(match);
+		if (/[-.:/@]/.test(match)) {
+			terms.push(...match.split(/[-.:/@]/).filter(part => part.length > 0));
+		}
+	}
+
+	return terms;
+}
+
+/**
+ * Okapi BM25 index over chunk texts, kept in sync with the vector store.
+ */
+export class KeywordIndex {
+	k1 = 1.2;
+	b = 0.75;
+	postings: Map<string, Map<string, number>> = new Map();
+	docTerms: Map<string, Record<string, number>> = new Map();
+	docLengths: Map<string, number> = new Map();
+	totalLength = 0;
+
+	static fromDocuments(documents: { id?: string; pageContent: string }[]): KeywordIndex {
+		const index = new KeywordIndex();
+		for (const document of documents) {
+			if (document.id) index.add(document.id, document.pageContent);
+		}
+		return index;
+	}
+
+	static fromJSON(data: KeywordIndexData): KeywordIndex | null {
+		if (!data || data.version !== KEYWORD_INDEX_VERSION) return null;
+		const index = new KeywordIndex();
+		for (const [id, termFreqs] of Object.entries(data.docs)) {
+			index.addTermFreqs(id, termFreqs);
+		}
+		return index;
+	}
+
+	toJSON(): KeywordIndexData {
+		const docs: Record<string, Record<string, number>> = {};
+		this.docTerms.forEach((termFreqs, id) => {
+			docs[id] = termFreqs;
+		});
+		return { version: KEYWORD_INDEX_VERSION, docs };
+	}
+
+	get size(): number {
+		return this.docTerms.size;
+	}
+
+	has(id: string): boolean {
+		return this.docTerms.has(id);
+	}
+
+	add(id: string, text: string) {
+		const termFreqs: Record<string, number> = {};
+		for (const term of tokenize(text)) {
+			termFreqs[term] = (termFreqs[term] || 0) + 1;
+		}
+		this.addTermFreqs(id, termFreqs);
+	}
+
+	addTermFreqs(id: string, termFreqs: Record<string, number>) {
+		if (this.docTerms.has(id)) this.remove(id);
+
+		let length = 0;
+		for (const [term, freq] of Object.entries(termFreqs)) {
+			let posting = this.postings.get(term);
+			if (!posting) {
+				posting = new Map();
+				this.postings.set(term, posting);
+			}
+			posting.set(id, freq);
+			length += freq;
+		}
+
+		this.docTerms.set(id, termFreqs);
+		this.docLengths.set(id, length);
+		this.totalLength += length;
+	}
+
+	remove(id: string) {
+		const termFreqs = this.docTerms.get(id);
+		if (!termFreqs) return;
+
+		for (const term of Object.keys(termFreqs)) {
+			const posting = this.postings.get(term);
+			posting?.delete(id);
+			if (posting && posting.size === 0) this.postings.delete(term);
+		}
+
+		this.totalLength -= this.docLengths.get(id) || 0;
+		this.docTerms.delete(id);
+		this.docLengths.delete(id);
+	}
+
+	search(query: string, k: number, accept?: (id: string) => boolean): KeywordMatch[] {
+		const docCount = this.docTerms.size;
+		if (docCount === 0) return [];
+
+		const averageLength = this.totalLength / docCount;
+		const scores = new Map<string, number>();
+		const accepted = new Map<string, boolean>();
+		const isAccepted = (id: string) => {
+			if (!accept) return true;
+			let result = accepted.get(id);
+			if (result === undefined) {
+				result = accept(id);
+				accepted.set(id, result);
+			}
+			return result;
+		};
+
+		for (const term of new Set(tokenize(query))) {
+			const posting = this.postings.get(term);
+			if (!posting) continue;
+
+			const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+			posting.forEach((freq, id) => {
+				if (!isAccepted(id)) return;
+				const length = this.docLengths.get(id) || 0;
+				const termScore = idf * (freq * (this.k1 + 1)) /
+					(freq + this.k1 * (1 - this.b + this.b * length / averageLength));
+				scores.set(id, (scores.get(id) || 0) + termScore);
+			});
+		}
+
+		return Array.from(scores.entries())
+			.map(([id, score]) => ({ id, score }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, k);
+	}
+}
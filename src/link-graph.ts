@@ -0,0 +1,64 @@
+export type ResolvedLinks = Record<string, Record<string, number>>;
+
+export interface LinkedNote {
+	// Score of the note it was reached from, multiplied by the weight once per hop
+	score: number;
+	hops: number;
+	// The note among the starting notes the path began at
+	from: string;
+}
+
+/**
+ * Turns metadataCache.resolvedLinks into a lookup of the notes a note links
+ * to followed by the notes linking to it. Backlinks are collected once, so
+ * repeated lookups don't scan the whole vault.
+ */
+export function createLinkLookup(resolvedLinks: ResolvedLinks): (path: string) => string[] {
+	const backlinks = new Map<string, string[]>();
+	for (const [source, targets] of Object.entries(resolvedLinks)) {
+		for (const target of Object.keys(targets)) {
+			const sources = backlinks.get(target);
+			if (sources) sources.push(source);
+			else backlinks.set(target, [source]);
+		}
+	}
+
+	return (path: string) => {
+		const linked = new Set([...Object.keys(resolvedLinks[path] ?? {}), ...(backlinks.get(path) ?? [])]);
+		linked.delete(path);
+		return Array.from(linked);
+	};
+}
+
+/**
+ * Follows links outward from the starting notes for up to `hops` steps. Each
+ * hop multiplies the score by `weight`, so notes further away count less.
+ * A note reached by several paths keeps its best score; starting notes are
+ * not included in the result.
+ */
+export function expandLinks(start: Map<string, number>, getLinkedPaths: (path: string) => string[], hops: number, weight: number): Map<string, LinkedNote> {
+	const reached = new Map<string, LinkedNote>();
+	const visited = new Set(start.keys());
+	let frontier = new Map<string, LinkedNote>(Array.from(start, ([path, score]) => [path, { score, hops: 0, from: path }]));
+
+	for (let hop = 1; hop <= hops && frontier.size > 0; hop++) {
+		const next = new Map<string, LinkedNote>();
+		for (const [path, note] of frontier) {
+			for (const linked of getLinkedPaths(path)) {
+				if (visited.has(linked)) continue;
+				const score = note.score * weight;
+				const existing = next.get(linked);
+				if (!existing || score > existing.score) {
+					next.set(linked, { score, hops: hop, from: note.from });
+				}
+			}
+		}
+		next.forEach((note, path) => {
+			visited.add(path);
+			reached.set(path, note);
+		});
+		frontier = next;
+	}
+
+	return reached;
+}
@@ -0,0 +1,279 @@
+import { ChunkLocation, lineAt } from './chunk-locator';
+
+export interface MarkdownChunk {
+	content: string;
+	location: ChunkLocation;
+}
+
+export interface FrontmatterMetadata {
+	tags: string[];
+	aliases: string[];
+	dates: Record<string, string>;
+}
+
+interface Block {
+	start: number;
+	end: number;
+	text: string;
+	// Code fences and tables are never split
+	atomic: boolean;
+	heading?: { level: number; text: string };
+}
+
+const DATE_KEYS = ['date', 'created', 'updated', 'modified', 'due', 'published'];
+
+/**
+ * Returns the YAML source of a note's frontmatter and where the body starts.
+ */
+export function splitFrontmatter(content: string): { yaml: string | null; bodyOffset: number } {
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/);
+	if (!match) return { yaml: null, bodyOffset: 0 };
+	return { yaml: match[1], bodyOffset: match[0].length };
+}
+
+function toStringList(value: unknown): string[] {
+	if (Array.isArray(value)) return value.filter(item => item !== null && item !== undefined).map(String);
+	if (typeof value === 'string') return value.split(/[,\s]+/).filter(item => item.length > 0);
+	return [];
+}
+
+/**
+ * Picks the frontmatter fields that are stored with every chunk of a note.
+ */
+export function extractFrontmatterMetadata(frontmatter: Record<string, unknown> | null | undefined): FrontmatterMetadata {
+	const metadata: FrontmatterMetadata = { tags: [], aliases: [], dates: {} };
+	if (!frontmatter) return metadata;
+
+	metadata.tags = toStringList(frontmatter.tags ?? frontmatter.tag)
+		.map(tag => tag.replace(/^#/, ''));
+	metadata.aliases = toStringList(frontmatter.aliases ?? frontmatter.alias);
+
+	for (const key of DATE_KEYS) {
+		const value = frontmatter[key];
+		if (value instanceof Date) {
+			metadata.dates[key] = value.toISOString();
+		} else if (typeof value === 'string' || typeof value === 'number') {
+			metadata.dates[key] = String(value);
+		}
+	}
+
+	return metadata;
+}
+
+/**
+ * Collects `#tags` written in the note body, skipping code and headings.
+ */
+export function extractInlineTags(content: string): string[] {
+	const { bodyOffset } = splitFrontmatter(content);
+	const body = content.slice(bodyOffset)
+		.replace(/(`{3,}|~{3,})[\s\S]*?\1/g, '')
+		.replace(/`[^`\n]*`/g, '');
+	const tags = new Set<string>();
+	const pattern = /(^|[^\w&#/])#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu;
+
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(body)) !== null) {
+		tags.add(match[2]);
+	}
+	return Array.from(tags);
+}
+
+/**
+ * Splits markdown along its structure: sections end at headings, code fences
+ * and tables stay intact, and every chunk is prefixed with the note title and
+ * the heading path it belongs to so it still makes sense on its own.
+ */
+export class MarkdownChunker {
+	chunkSize: number;
+	chunkOverlap: number;
+
+	constructor(options: { chunkSize: number; chunkOverlap: number }) {
+		this.chunkSize = options.chunkSize;
+		this.chunkOverlap = options.chunkOverlap;
+	}
+
+	split(content: string, title: string): MarkdownChunk[] {
+		const { bodyOffset } = splitFrontmatter(content);
+		const blocks = this.parseBlocks(content, bodyOffset);
+		const chunks: MarkdownChunk[] = [];
+		const headingStack: { level: number; text: string }[] = [];
+		let current: Block[] = [];
+		let currentLength = 0;
+
+		const flush = (carryOverlap: boolean) => {
+			if (current.length === 0) return;
+			chunks.push(this.createChunk(content, title, headingStack.map(h => h.text), current));
+
+			// Repeat trailing blocks of this chunk at the start of the next one
+			const carried: Block[] = [];
+			let carriedLength = 0;
+			if (carryOverlap && this.chunkOverlap > 0) {
+				for (let i = current.length - 1; i > 0; i--) {
+					const length = current[i].text.length;
+					if (current[i].atomic || carriedLength + length > this.chunkOverlap) break;
+					carried.unshift(current[i]);
+					carriedLength += length;
+				}
+			}
+			current = carried;
+			currentLength = carriedLength;
+		};
+
+		for (const block of blocks) {
+			if (block.heading) {
+				flush(false);
+				while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.heading.level) {
+					headingStack.pop();
+				}
+				headingStack.push(block.heading);
+				continue;
+			}
+
+			for (const piece of this.fitBlock(block)) {
+				if (current.length > 0 && currentLength + piece.text.length + 2 > this.chunkSize) {
+					flush(true);
+				}
+				current.push(piece);
+				currentLength += piece.text.length + 2;
+			}
+		}
+		flush(false);
+
+		return chunks;
+	}
+
+	createChunk(content: string, title: string, headingPath: string[], blocks: Block[]): MarkdownChunk {
+		const start = blocks[0].start;
+		const end = blocks[blocks.length - 1].end;
+		let header = `Title: ${title}`;
+		if (headingPath.length > 0) {
+			header += `\nSection: ${headingPath.join(' > ')}`;
+		}
+
+		return {
+			content: `${header}\n\n${blocks.map(block => block.text).join('\n\n')}`,
+			location: {
+				startOffset: start,
+				endOffset: end,
+				startLine: lineAt(content, start),
+				endLine: lineAt(content, end),
+				headingPath
+			}
+		};
+	}
+
+	/**
+	 * Breaks paragraphs that are longer than a chunk on line boundaries, and
+	 * single overlong lines on word boundaries. Atomic blocks are returned as is.
+	 */
+	fitBlock(block: Block): Block[] {
+		if (block.atomic || block.text.length <= this.chunkSize) return [block];
+
+		const pieces: Block[] = [];
+		let pieceStart = block.start;
+		let pieceText = '';
+
+		const push = () => {
+			if (pieceText.trim().length > 0) {
+				pieces.push({ start: pieceStart, end: pieceStart + pieceText.length, text: pieceText, atomic: false });
+			}
+		};
+
+		let offset = block.start;
+		for (const line of block.text.split('\n')) {
+			const words = line.length > this.chunkSize ? line.split(/(?<=\s)/) : [line];
+			for (const word of words) {
+				if (pieceText.length > 0 && pieceText.length + word.length > this.chunkSize) {
+					push();
+					pieceStart = offset;
+					pieceText = '';
+				}
+				pieceText += word;
+				offset += word.length;
+			}
+			pieceText += '\n';
+			offset += 1;
+		}
+		pieceText = pieceText.replace(/\n$/, '');
+		push();
+
+		return pieces.map(piece => ({ ...piece, text: piece.text.trim() }));
+	}
+
+	parseBlocks(content: string, bodyOffset: number): Block[] {
+		const blocks: Block[] = [];
+		const lines = content.slice(bodyOffset).split('\n');
+		const lineOffsets: number[] = [];
+		let offset = bodyOffset;
+		for (const line of lines) {
+			lineOffsets.push(offset);
+			offset += line.length + 1;
+		}
+
+		const pushBlock = (from: number, to: number, atomic: boolean) => {
+			const start = lineOffsets[from];
+			const end = lineOffsets[to] + lines[to].length;
+			const text = content.slice(start, end).replace(/\s+$/, '');
+			if (text.trim().length > 0) {
+				blocks.push({ start, end: start + text.length, text, atomic });
+			}
+		};
+
+		let i = 0;
+		while (i < lines.length) {
+			const line = lines[i];
+
+			const fence = line.match(/^\s*(`{3,}|~{3,})/);
+			if (fence) {
+				const marker = fence[1];
+				let j = i + 1;
+				while (j < lines.length && !lines[j].trim().startsWith(marker)) j++;
+				pushBlock(i, Math.min(j, lines.length - 1), true);
+				i = j + 1;
+				continue;
+			}
+
+			const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+			if (heading) {
+				blocks.push({
+					start: lineOffsets[i],
+					end: lineOffsets[i] + line.length,
+					text: line,
+					atomic: true,
+					heading: { level: heading[1].length, text: heading[2] }
+				});
+				i++;
+				continue;
+			}
+
+			if (line.trim().startsWith('|')) {
+				let j = i;
+				while (j + 1 < lines.length && lines[j + 1].trim().startsWith('|')) j++;
+				pushBlock(i, j, true);
+				i = j + 1;
+				continue;
+			}
+
+			if (line.trim().length === 0) {
+				i++;
+				continue;
+			}
+
+			// Paragraph or list: runs until a blank line or another block type
+			let j = i;
+			while (
+				j + 1 < lines.length &&
+				lines[j + 1].trim().length > 0 &&
+				!/^\s*(`{3,}|~{3,})/.test(lines[j + 1]) &&
+				!/^#{1,6}\s/.test(lines[j + 1]) &&
+				!lines[j + 1].trim().startsWith('|')
+			) {
+				j++;
+			}
+			pushBlock(i, j, false);
+			i = j + 1;
+		}
+
+		return blocks;
+	}
+}
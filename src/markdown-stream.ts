@@ -0,0 +1,41 @@
+import { Component, MarkdownRenderer } from 'obsidian';
+
+/**
+ * Renders markdown into a container while text is still arriving.
+ * Re-renders are throttled so long answers don't re-parse on every token.
+ */
+export class MarkdownStream {
+	container: HTMLElement;
+	component: Component;
+	text = '';
+	renderTimer: number | null = null;
+	interval: number;
+
+	constructor(container: HTMLElement, component: Component, interval = 80) {
+		this.container = container;
+		this.component = component;
+		this.interval = interval;
+	}
+
+	append(chunk: string) {
+		this.text += chunk;
+		if (this.renderTimer !== null) return;
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, this.interval);
+	}
+
+	async finish() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+			this.renderTimer = null;
+		}
+		await this.render();
+	}
+
+	async render() {
+		this.container.empty();
+		await MarkdownRenderer.renderMarkdown(this.text, this.container, '', this.component);
+	}
+}
@@ -0,0 +1,42 @@
+import type GeminiRAGPlugin from '../main';
+
+/**
+ * Dropdown for the answer mode. Starts at the default mode from the settings
+ * and reloads the list when opened, so new template notes show up.
+ */
+export class ModePicker {
+	plugin: GeminiRAGPlugin;
+	selectEl: HTMLSelectElement;
+	selected: string;
+
+	constructor(plugin: GeminiRAGPlugin, parent: HTMLElement) {
+		this.plugin = plugin;
+		this.selected = plugin.settings.defaultPromptMode;
+		this.selectEl = parent.createEl('select', {
+			cls: 'dropdown rag-mode-picker',
+			attr: { 'aria-label': 'Answer mode' }
+		});
+		this.selectEl.addEventListener('focus', () => this.loadModes());
+		this.selectEl.addEventListener('change', () => {
+			this.selected = this.selectEl.value;
+		});
+		this.loadModes();
+	}
+
+	async loadModes() {
+		const modes = await this.plugin.getPromptModes();
+		if (!modes.some(mode => mode.id === this.selected) && modes.length > 0) {
+			this.selected = modes.find(mode => mode.id === this.plugin.settings.defaultPromptMode)?.id ?? modes[0].id;
+		}
+
+		this.selectEl.empty();
+		for (const mode of modes) {
+			this.selectEl.createEl('option', { text: mode.name, attr: { value: mode.id } });
+		}
+		this.selectEl.value = this.selected;
+	}
+
+	getMode(): string {
+		return this.selected;
+	}
+}
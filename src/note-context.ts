@@ -0,0 +1,75 @@
+import { DocumentChunk } from './types';
+import { estimateTokens } from './chat-history';
+
+// Why a note was added to the context in addition to the search results;
+// 'keyword' and 'note' are passages the agent found by keyword or read in full
+export type ContextOrigin = 'active' | 'pinned' | 'linked' | 'keyword' | 'note';
+
+export interface NoteContextOptions {
+	// The note open in the editor
+	activeNote: boolean;
+	// Notes the active note links to, and notes linking to it
+	linkedNotes: boolean;
+	// Note paths, and folder paths ending in '/', added to every question
+	pinned: string[];
+}
+
+// Notes with many backlinks would otherwise be read in full for every question
+export const MAX_LINKED_NOTES = 20;
+
+export const ORIGIN_LABELS: Record<ContextOrigin, string> = {
+	active: 'active note',
+	pinned: 'pinned',
+	linked: 'linked note',
+	keyword: 'keyword match',
+	note: 'full note'
+};
+
+export function isPinnedFolder(path: string): boolean {
+	return path.endsWith('/');
+}
+
+/**
+ * Takes the first chunk of every note, then the second, and so on, so one
+ * long note cannot use up the budget meant for all of them.
+ */
+export function interleaveChunks(notes: DocumentChunk[][]): DocumentChunk[] {
+	const result: DocumentChunk[] = [];
+	const longest = Math.max(0, ...notes.map(chunks => chunks.length));
+	for (let i = 0; i < longest; i++) {
+		for (const chunks of notes) {
+			if (i < chunks.length) result.push(chunks[i]);
+		}
+	}
+	return result;
+}
+
+/**
+ * Combines the retrieved chunks with the notes the user asked for under one
+ * token budget. The active note and pins may take up to half of it, then
+ * retrieved chunks fill the budget in rank order, and whatever room is left
+ * goes to the rest of the requested notes and linked notes. Chunks found by
+ * both are only included once.
+ */
+export function mergeContext(retrieved: DocumentChunk[], extra: DocumentChunk[], tokenBudget: number): DocumentChunk[] {
+	const selected: DocumentChunk[] = [];
+	const seen = new Set<string>();
+	let tokens = 0;
+
+	const add = (chunk: DocumentChunk, limit: number) => {
+		const key = `${chunk.filePath}\n${chunk.content}`;
+		if (seen.has(key)) return;
+		const chunkTokens = estimateTokens(chunk.content);
+		if (tokens + chunkTokens > limit) return;
+		seen.add(key);
+		selected.push(chunk);
+		tokens += chunkTokens;
+	};
+
+	const requested = extra.filter(chunk => chunk.origin !== 'linked');
+	requested.forEach(chunk => add(chunk, tokenBudget / 2));
+	retrieved.forEach(chunk => add(chunk, tokenBudget));
+	extra.forEach(chunk => add(chunk, tokenBudget));
+
+	return selected;
+}
@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+/** Picks a note or a folder (path ending in '/') to pin as chat context. */
+export class PinSuggestModal extends FuzzySuggestModal<string> {
+	onChoose: (path: string) => void;
+
+	constructor(app: App, onChoose: (path: string) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Pin a note or folder...');
+	}
+
+	getItems(): string[] {
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+			.map(folder => `${folder.path}/`);
+		const notes = this.app.vault.getMarkdownFiles().map(file => file.path);
+		return [...folders, ...notes].sort();
+	}
+
+	getItemText(path: string): string {
+		return path;
+	}
+
+	onChooseItem(path: string) {
+		this.onChoose(path);
+	}
+}
@@ -0,0 +1,148 @@
+import { parseYaml } from 'obsidian';
+import type { ChatMessage, DocumentChunk } from './types';
+import { splitFrontmatter } from './markdown-chunker';
+
+/**
+ * An answer mode: the prompt template sent to the chat model together with
+ * the generation settings it should run with.
+ */
+export interface PromptMode {
+	id: string;
+	name: string;
+	template: string;
+	temperature: number;
+	maxOutputTokens: number;
+	// Vault note the mode was loaded from, read-only in the settings
+	sourcePath?: string;
+}
+
+export interface PromptVariables {
+	// Retrieved passages, numbered for citations
+	context: string;
+	input: string;
+	// Earlier messages of the conversation as a transcript
+	history: string;
+	// Title and content of the active note
+	currentNote: string;
+	date: string;
+}
+
+export const PROMPT_VARIABLES: (keyof PromptVariables)[] = ['context', 'input', 'history', 'currentNote', 'date'];
+
+const CITATION_INSTRUCTIONS = 'Each context passage starts with a number in square brackets. Cite the passages you use by putting their numbers in square brackets right after the sentence they support, e.g. [1] or [2][3]. Do not cite numbers that are not in the context.';
+
+const CONTEXT_BLOCK = `Today is {date}.
+
+<context>
+{context}
+</context>
+
+<conversation>
+{history}
+</conversation>
+
+Question: {input}`;
+
+export const BUILT_IN_PROMPT_MODES: PromptMode[] = [
+	{
+		id: 'strict',
+		name: 'Strict (notes only)',
+		template: `Answer the question based only on the context from my notes below. If the context does not contain the answer, say that my notes don't cover it. Use the conversation to resolve references to earlier messages.
+${CITATION_INSTRUCTIONS}
+
+${CONTEXT_BLOCK}`,
+		temperature: 0.1,
+		maxOutputTokens: 2048
+	},
+	{
+		id: 'general',
+		name: 'Notes + general knowledge',
+		template: `Answer the question using the context from my notes below where it is relevant, and your general knowledge where the notes are incomplete. Make clear which statements come from my notes and which from general knowledge. Use the conversation to resolve references to earlier messages.
+${CITATION_INSTRUCTIONS}
+
+${CONTEXT_BLOCK}`,
+		temperature: 0.4,
+		maxOutputTokens: 2048
+	},
+	{
+		id: 'summarize',
+		name: 'Summarize',
+		template: `Summarize what the context from my notes below says about the topic of the question. Group related points under short headings or bullet points, mention where notes disagree, and leave out anything that is not in the context.
+${CITATION_INSTRUCTIONS}
+
+${CONTEXT_BLOCK}`,
+		temperature: 0.2,
+		maxOutputTokens: 1536
+	},
+	{
+		id: 'brainstorm',
+		name: 'Brainstorm',
+		template: `Use the context from my notes below as a starting point to brainstorm on the question. Suggest a varied list of ideas, connections between notes and open questions worth exploring, and feel free to go beyond what the notes say.
+${CITATION_INSTRUCTIONS}
+
+${CONTEXT_BLOCK}`,
+		temperature: 0.9,
+		maxOutputTokens: 2048
+	}
+];
+
+/**
+ * Fills in the known {variables} and leaves any other braces alone, so
+ * templates can contain JSON or code examples. Templates without {context}
+ * or {input} get them appended, since an answer needs both.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+	let text = template;
+	if (!text.includes('{context}')) text += '\n\nContext:\n{context}';
+	if (!text.includes('{input}')) text += '\n\nQuestion: {input}';
+
+	return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+		(PROMPT_VARIABLES as string[]).includes(name) ? variables[name as keyof PromptVariables] : match);
+}
+
+/** Numbers the passages so the model can cite them; the numbers match the order of the sources. */
+export function formatContext(chunks: DocumentChunk[]): string {
+	if (chunks.length === 0) return '(no matching passages)';
+	return chunks.map((chunk, index) => {
+		const section = chunk.headingPath && chunk.headingPath.length > 0 ? ` > ${chunk.headingPath.join(' > ')}` : '';
+		return `[${index + 1}] ${chunk.filePath}${section}\n${chunk.content}`;
+	}).join('\n\n');
+}
+
+export function formatHistory(history: ChatMessage[]): string {
+	if (history.length === 0) return '(no earlier messages)';
+	return history.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n');
+}
+
+/**
+ * Reads an answer mode from a note. The body is the template; frontmatter may
+ * set `name`, `temperature` and `max_tokens`. Returns null for empty notes.
+ */
+export function parsePromptTemplateNote(path: string, basename: string, content: string): PromptMode | null {
+	const { yaml, bodyOffset } = splitFrontmatter(content);
+	const template = content.substring(bodyOffset).trim();
+	if (!template) return null;
+
+	let frontmatter: Record<string, unknown> = {};
+	if (yaml) {
+		try {
+			frontmatter = parseYaml(yaml) ?? {};
+		} catch (error) {
+			console.warn(`Invalid frontmatter in prompt template ${path}:`, error);
+		}
+	}
+
+	const number = (value: unknown, fallback: number) => {
+		const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+		return isNaN(parsed) ? fallback : parsed;
+	};
+
+	return {
+		id: `vault:${path}`,
+		name: typeof frontmatter.name === 'string' && frontmatter.name.trim() ? frontmatter.name.trim() : basename,
+		template,
+		temperature: number(frontmatter.temperature, 0.2),
+		maxOutputTokens: Math.round(number(frontmatter.max_tokens ?? frontmatter.maxOutputTokens, 2048)),
+		sourcePath: path
+	};
+}
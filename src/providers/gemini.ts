@@ -0,0 +1,30 @@
+import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+import { ChatProvider, EmbeddingProvider } from './types';
+
+export const geminiChatProvider: ChatProvider = {
+	id: 'gemini',
+	name: 'Google Gemini',
+	fallbackModels: ['gemini-1.5-flash-latest', 'gemini-1.5-flash', 'gemini-1.0-pro'],
+	isConfigured: (settings) => !!settings.apiKey,
+	getModelName: (settings) => settings.generativeModel,
+	createChatModel: (settings, options) => new ChatGoogleGenerativeAI({
+		apiKey: settings.apiKey,
+		model: options.model ?? settings.generativeModel,
+		maxRetries: options.maxRetries,
+		temperature: options.temperature,
+		maxOutputTokens: options.maxOutputTokens
+	})
+};
+
+export const geminiEmbeddingProvider: EmbeddingProvider = {
+	id: 'gemini',
+	name: 'Google Gemini',
+	isConfigured: (settings) => !!settings.apiKey,
+	getModelName: (settings) => settings.embeddingModel,
+	createEmbeddings: (settings) => new GoogleGenerativeAIEmbeddings({
+		apiKey: settings.apiKey,
+		model: settings.embeddingModel,
+		maxRetries: 3,
+		maxConcurrency: 1
+	})
+};
@@ -0,0 +1,119 @@
+import { requestUrl } from 'obsidian';
+import type { BaseMessage } from '@langchain/core/messages';
+
+export interface ProviderImage {
+	mimeType: string;
+	// Base64 without the data URL prefix
+	data: string;
+}
+
+export interface ProviderMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+	images?: ProviderImage[];
+}
+
+/**
+ * POSTs JSON through Obsidian's requestUrl, which is not subject to CORS.
+ * Failures are thrown with the status code in the message so callers can
+ * tell rate limits (429) and outages (503) apart.
+ */
+export async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+	const response = await requestUrl({
+		url,
+		method: 'POST',
+		contentType: 'application/json',
+		headers,
+		body: JSON.stringify(body),
+		throw: false
+	});
+
+	if (response.status >= 400) {
+		let detail = '';
+		try {
+			detail = response.text;
+		} catch (error) {
+			// Body is not text, the status code alone has to do
+		}
+		throw new Error(`Request to ${url} failed with status ${response.status}: ${detail}`);
+	}
+
+	return response.json as T;
+}
+
+export function joinUrl(baseUrl: string, path: string): string {
+	return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Flattens LangChain messages to role and text. Images given as `image_url`
+ * parts with a base64 data URL are passed on separately, since every API
+ * expects them in a different place.
+ */
+export function toProviderMessages(messages: BaseMessage[]): ProviderMessage[] {
+	return messages.map(message => {
+		const type = message.getType();
+		const role = type === 'system' ? 'system' : type === 'ai' ? 'assistant' : 'user';
+		if (typeof message.content === 'string') return { role, content: message.content };
+
+		const images: ProviderImage[] = [];
+		for (const part of message.content) {
+			if (part.type !== 'image_url') continue;
+			const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+			const match = typeof url === 'string' ? /^data:([^;]+);base64,(.*)$/.exec(url) : null;
+			if (match) images.push({ mimeType: match[1], data: match[2] });
+		}
+		const content = message.content.map(part => ('text' in part ? part.text : '')).join('');
+		return images.length > 0 ? { role, content, images } : { role, content };
+	});
+}
+
+/**
+ * Streams a POST response line by line. Uses fetch because requestUrl cannot
+ * stream; servers that reject the request with CORS surface as a TypeError.
+ */
+export async function* streamLines(
+	url: string,
+	body: unknown,
+	headers: Record<string, string> = {},
+	signal?: AbortSignal
+): AsyncGenerator<string> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify(body),
+		signal
+	});
+
+	if (!response.ok || !response.body) {
+		const detail = await response.text().catch(() => '');
+		throw new Error(`Request to ${url} failed with status ${response.status}: ${detail}`);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+
+			let newline = buffer.indexOf('\n');
+			while (newline !== -1) {
+				const line = buffer.slice(0, newline).trim();
+				buffer = buffer.slice(newline + 1);
+				if (line) yield line;
+				newline = buffer.indexOf('\n');
+			}
+		}
+		if (buffer.trim()) yield buffer.trim();
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+export function isNetworkError(error: unknown): boolean {
+	return error instanceof TypeError;
+}
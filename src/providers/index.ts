@@ -0,0 +1,26 @@
+import { geminiChatProvider, geminiEmbeddingProvider } from './gemini';
+import { openAICompatibleChatProvider, openAICompatibleEmbeddingProvider } from './openai-compatible';
+import { ollamaChatProvider, ollamaEmbeddingProvider } from './ollama';
+import { ChatProvider, EmbeddingProvider, ProviderId } from './types';
+
+export * from './types';
+
+export const CHAT_PROVIDERS: Record<ProviderId, ChatProvider> = {
+	gemini: geminiChatProvider,
+	openai: openAICompatibleChatProvider,
+	ollama: ollamaChatProvider
+};
+
+export const EMBEDDING_PROVIDERS: Record<ProviderId, EmbeddingProvider> = {
+	gemini: geminiEmbeddingProvider,
+	openai: openAICompatibleEmbeddingProvider,
+	ollama: ollamaEmbeddingProvider
+};
+
+export function getChatProvider(id: ProviderId): ChatProvider {
+	return CHAT_PROVIDERS[id] ?? geminiChatProvider;
+}
+
+export function getEmbeddingProvider(id: ProviderId): EmbeddingProvider {
+	return EMBEDDING_PROVIDERS[id] ?? geminiEmbeddingProvider;
+}
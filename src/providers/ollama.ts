@@ -0,0 +1,149 @@
+import { SimpleChatModel, BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { Embeddings, EmbeddingsParams } from '@langchain/core/embeddings';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { ChatProvider, EmbeddingProvider } from './types';
+import { ProviderMessage, isNetworkError, joinUrl, postJson, streamLines, toProviderMessages } from './http';
+
+interface OllamaParams {
+	baseUrl: string;
+	model: string;
+}
+
+interface OllamaChatResponse {
+	message: { content: string };
+	done?: boolean;
+}
+
+interface OllamaEmbedResponse {
+	embeddings: number[][];
+}
+
+// Ollama takes the images of a message as a list of base64 strings
+function toOllamaMessages(messages: BaseMessage[]) {
+	return toProviderMessages(messages).map(({ images, ...message }: ProviderMessage) =>
+		images ? { ...message, images: images.map(image => image.data) } : message);
+}
+
+export class OllamaChatModel extends SimpleChatModel {
+	baseUrl: string;
+	model: string;
+	temperature: number;
+	numPredict: number;
+
+	constructor(fields: OllamaParams & BaseChatModelParams & { temperature: number; numPredict: number }) {
+		super(fields);
+		this.baseUrl = fields.baseUrl;
+		this.model = fields.model;
+		this.temperature = fields.temperature;
+		this.numPredict = fields.numPredict;
+	}
+
+	_llmType(): string {
+		return 'ollama';
+	}
+
+	async _call(messages: BaseMessage[]): Promise<string> {
+		const response = await this.caller.call(() => postJson<OllamaChatResponse>(
+			joinUrl(this.baseUrl, 'api/chat'),
+			{
+				model: this.model,
+				messages: toOllamaMessages(messages),
+				stream: false,
+				options: { temperature: this.temperature, num_predict: this.numPredict }
+			}
+		));
+		return response.message?.content ?? '';
+	}
+
+	async *_streamResponseChunks(
+		messages: BaseMessage[],
+		options: this['ParsedCallOptions'],
+		runManager?: CallbackManagerForLLMRun
+	): AsyncGenerator<ChatGenerationChunk> {
+		const lines = streamLines(
+			joinUrl(this.baseUrl, 'api/chat'),
+			{
+				model: this.model,
+				messages: toOllamaMessages(messages),
+				stream: true,
+				options: { temperature: this.temperature, num_predict: this.numPredict }
+			},
+			{},
+			options.signal
+		);
+
+		let streamed = false;
+		try {
+			for await (const line of lines) {
+				const chunk = JSON.parse(line) as OllamaChatResponse;
+				const text = chunk.message?.content ?? '';
+				if (text) {
+					streamed = true;
+					yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+					await runManager?.handleLLMNewToken(text);
+				}
+				if (chunk.done) break;
+			}
+		} catch (error) {
+			// Ollama rejects the app origin unless OLLAMA_ORIGINS allows it, answer in one piece instead
+			if (streamed || !isNetworkError(error)) throw error;
+			const text = await this._call(messages);
+			yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+		}
+	}
+}
+
+export class OllamaEmbeddings extends Embeddings {
+	baseUrl: string;
+	model: string;
+
+	constructor(fields: OllamaParams & EmbeddingsParams) {
+		super(fields);
+		this.baseUrl = fields.baseUrl;
+		this.model = fields.model;
+	}
+
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		if (documents.length === 0) return [];
+		const response = await this.caller.call(() => postJson<OllamaEmbedResponse>(
+			joinUrl(this.baseUrl, 'api/embed'),
+			{ model: this.model, input: documents }
+		));
+		return response.embeddings;
+	}
+
+	async embedQuery(document: string): Promise<number[]> {
+		const [vector] = await this.embedDocuments([document]);
+		return vector;
+	}
+}
+
+export const ollamaChatProvider: ChatProvider = {
+	id: 'ollama',
+	name: 'Ollama',
+	fallbackModels: [],
+	isConfigured: (settings) => !!settings.ollamaBaseUrl && !!settings.ollamaChatModel,
+	getModelName: (settings) => settings.ollamaChatModel,
+	createChatModel: (settings, options) => new OllamaChatModel({
+		baseUrl: settings.ollamaBaseUrl,
+		model: options.model ?? settings.ollamaChatModel,
+		temperature: options.temperature,
+		numPredict: options.maxOutputTokens,
+		maxRetries: options.maxRetries
+	})
+};
+
+export const ollamaEmbeddingProvider: EmbeddingProvider = {
+	id: 'ollama',
+	name: 'Ollama',
+	isConfigured: (settings) => !!settings.ollamaBaseUrl && !!settings.ollamaEmbeddingModel,
+	getModelName: (settings) => settings.ollamaEmbeddingModel,
+	createEmbeddings: (settings) => new OllamaEmbeddings({
+		baseUrl: settings.ollamaBaseUrl,
+		model: settings.ollamaEmbeddingModel,
+		maxRetries: 3,
+		maxConcurrency: 1
+	})
+};
@@ -0,0 +1,180 @@
+import { SimpleChatModel, BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { Embeddings, EmbeddingsParams } from '@langchain/core/embeddings';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { ChatProvider, EmbeddingProvider } from './types';
+import { ProviderMessage, isNetworkError, joinUrl, postJson, streamLines, toProviderMessages } from './http';
+
+interface OpenAICompatibleParams {
+	baseUrl: string;
+	apiKey: string;
+	model: string;
+}
+
+interface ChatCompletionResponse {
+	choices: { message: { content: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+	choices: { delta: { content?: string | null } }[];
+}
+
+interface EmbeddingResponse {
+	data: { index: number; embedding: number[] }[];
+}
+
+function authHeaders(apiKey: string): Record<string, string> {
+	return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+// Messages with images use the content-parts format of the vision API
+function toOpenAIMessages(messages: BaseMessage[]) {
+	return toProviderMessages(messages).map(({ images, ...message }: ProviderMessage) => images
+		? {
+			role: message.role,
+			content: [
+				{ type: 'text', text: message.content },
+				...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+			]
+		}
+		: message);
+}
+
+export class OpenAICompatibleChatModel extends SimpleChatModel {
+	baseUrl: string;
+	apiKey: string;
+	model: string;
+	temperature: number;
+	maxTokens: number;
+
+	constructor(fields: OpenAICompatibleParams & BaseChatModelParams & { temperature: number; maxTokens: number }) {
+		super(fields);
+		this.baseUrl = fields.baseUrl;
+		this.apiKey = fields.apiKey;
+		this.model = fields.model;
+		this.temperature = fields.temperature;
+		this.maxTokens = fields.maxTokens;
+	}
+
+	_llmType(): string {
+		return 'openai-compatible';
+	}
+
+	async _call(messages: BaseMessage[]): Promise<string> {
+		const response = await this.caller.call(() => postJson<ChatCompletionResponse>(
+			joinUrl(this.baseUrl, 'chat/completions'),
+			{
+				model: this.model,
+				messages: toOpenAIMessages(messages),
+				temperature: this.temperature,
+				max_tokens: this.maxTokens
+			},
+			authHeaders(this.apiKey)
+		));
+		return response.choices[0]?.message.content ?? '';
+	}
+
+	async *_streamResponseChunks(
+		messages: BaseMessage[],
+		options: this['ParsedCallOptions'],
+		runManager?: CallbackManagerForLLMRun
+	): AsyncGenerator<ChatGenerationChunk> {
+		const lines = streamLines(
+			joinUrl(this.baseUrl, 'chat/completions'),
+			{
+				model: this.model,
+				messages: toOpenAIMessages(messages),
+				temperature: this.temperature,
+				max_tokens: this.maxTokens,
+				stream: true
+			},
+			authHeaders(this.apiKey),
+			options.signal
+		);
+
+		let streamed = false;
+		try {
+			for await (const line of lines) {
+				if (!line.startsWith('data:')) continue;
+				const data = line.slice('data:'.length).trim();
+				if (data === '[DONE]') break;
+
+				const text = (JSON.parse(data) as ChatCompletionChunk).choices[0]?.delta.content ?? '';
+				if (!text) continue;
+				streamed = true;
+				yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+				await runManager?.handleLLMNewToken(text);
+			}
+		} catch (error) {
+			// The server refused a streaming fetch (usually CORS), answer in one piece instead
+			if (streamed || !isNetworkError(error)) throw error;
+			const text = await this._call(messages);
+			yield new ChatGenerationChunk({ text, message: new AIMessageChunk({ content: text }) });
+		}
+	}
+}
+
+export class OpenAICompatibleEmbeddings extends Embeddings {
+	baseUrl: string;
+	apiKey: string;
+	model: string;
+	batchSize = 64;
+
+	constructor(fields: OpenAICompatibleParams & EmbeddingsParams) {
+		super(fields);
+		this.baseUrl = fields.baseUrl;
+		this.apiKey = fields.apiKey;
+		this.model = fields.model;
+	}
+
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		const vectors: number[][] = [];
+		for (let i = 0; i < documents.length; i += this.batchSize) {
+			const batch = documents.slice(i, i + this.batchSize);
+			const response = await this.caller.call(() => postJson<EmbeddingResponse>(
+				joinUrl(this.baseUrl, 'embeddings'),
+				{ model: this.model, input: batch },
+				authHeaders(this.apiKey)
+			));
+			const sorted = [...response.data].sort((a, b) => a.index - b.index);
+			vectors.push(...sorted.map(item => item.embedding));
+		}
+		return vectors;
+	}
+
+	async embedQuery(document: string): Promise<number[]> {
+		const [vector] = await this.embedDocuments([document]);
+		return vector;
+	}
+}
+
+export const openAICompatibleChatProvider: ChatProvider = {
+	id: 'openai',
+	name: 'OpenAI-compatible',
+	fallbackModels: [],
+	isConfigured: (settings) => !!settings.openaiBaseUrl && !!settings.openaiChatModel,
+	getModelName: (settings) => settings.openaiChatModel,
+	createChatModel: (settings, options) => new OpenAICompatibleChatModel({
+		baseUrl: settings.openaiBaseUrl,
+		apiKey: settings.openaiApiKey,
+		model: options.model ?? settings.openaiChatModel,
+		temperature: options.temperature,
+		maxTokens: options.maxOutputTokens,
+		maxRetries: options.maxRetries
+	})
+};
+
+export const openAICompatibleEmbeddingProvider: EmbeddingProvider = {
+	id: 'openai',
+	name: 'OpenAI-compatible',
+	isConfigured: (settings) => !!settings.openaiBaseUrl && !!settings.openaiEmbeddingModel,
+	getModelName: (settings) => settings.openaiEmbeddingModel,
+	createEmbeddings: (settings) => new OpenAICompatibleEmbeddings({
+		baseUrl: settings.openaiBaseUrl,
+		apiKey: settings.openaiApiKey,
+		model: settings.openaiEmbeddingModel,
+		maxRetries: 3,
+		maxConcurrency: 1
+	})
+};
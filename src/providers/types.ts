@@ -0,0 +1,30 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
+import type { GeminiRAGSettings } from '../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface ChatModelOptions {
+	model?: string;
+	temperature: number;
+	maxOutputTokens: number;
+	maxRetries: number;
+}
+
+export interface ChatProvider {
+	id: ProviderId;
+	name: string;
+	// Models tried in order when the configured one keeps returning 503
+	fallbackModels: string[];
+	isConfigured(settings: GeminiRAGSettings): boolean;
+	getModelName(settings: GeminiRAGSettings): string;
+	createChatModel(settings: GeminiRAGSettings, options: ChatModelOptions): BaseChatModel;
+}
+
+export interface EmbeddingProvider {
+	id: ProviderId;
+	name: string;
+	isConfigured(settings: GeminiRAGSettings): boolean;
+	getModelName(settings: GeminiRAGSettings): string;
+	createEmbeddings(settings: GeminiRAGSettings): Embeddings;
+}
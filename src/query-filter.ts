@@ -0,0 +1,135 @@
+import type { Document } from '@langchain/core/documents';
+
+export interface RetrievalFilter {
+	// Path prefixes, a chunk matches if it is inside any of them
+	folders: string[];
+	// Tags without '#', a chunk matches if it has any of them or a nested tag
+	tags: string[];
+	// Inclusive date range on the note's modification time, as YYYY-MM-DD
+	after?: string;
+	before?: string;
+}
+
+export function emptyFilter(): RetrievalFilter {
+	return { folders: [], tags: [] };
+}
+
+export function isFilterEmpty(filter: RetrievalFilter | undefined): boolean {
+	return !filter || (filter.folders.length === 0 && filter.tags.length === 0 && !filter.after && !filter.before);
+}
+
+export function normalizeFolder(folder: string): string {
+	const trimmed = folder.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+	return trimmed ? `${trimmed}/` : '';
+}
+
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+const INLINE_FILTER_PATTERN = /(^|\s)(folder|path|tag|after|before):("[^"]*"|\S+)/gi;
+
+/**
+ * Extracts inline filters such as `folder:Projects/ tag:#meeting after:2025-01-01`
+ * from a query and returns the remaining question text separately.
+ */
+export function parseQueryFilters(query: string): { query: string; filter: RetrievalFilter } {
+	const filter = emptyFilter();
+
+	const rest = query.replace(INLINE_FILTER_PATTERN, (match, space: string, key: string, rawValue: string) => {
+		const value = rawValue.replace(/^"|"$/g, '');
+		switch (key.toLowerCase()) {
+			case 'folder':
+			case 'path':
+				if (normalizeFolder(value)) filter.folders.push(normalizeFolder(value));
+				break;
+			case 'tag':
+				if (normalizeTag(value)) filter.tags.push(normalizeTag(value));
+				break;
+			case 'after':
+				if (isValidDate(value)) filter.after = value;
+				else return match;
+				break;
+			case 'before':
+				if (isValidDate(value)) filter.before = value;
+				else return match;
+				break;
+		}
+		return space;
+	});
+
+	return { query: rest.replace(/\s+/g, ' ').trim(), filter };
+}
+
+export function mergeFilters(...filters: (RetrievalFilter | undefined)[]): RetrievalFilter {
+	const merged = emptyFilter();
+	for (const filter of filters) {
+		if (!filter) continue;
+		merged.folders.push(...filter.folders.map(normalizeFolder).filter(f => f && !merged.folders.includes(f)));
+		merged.tags.push(...filter.tags.map(normalizeTag).filter(t => t && !merged.tags.includes(t)));
+		// The narrowest date range wins
+		if (filter.after && (!merged.after || filter.after > merged.after)) merged.after = filter.after;
+		if (filter.before && (!merged.before || filter.before < merged.before)) merged.before = filter.before;
+	}
+	return merged;
+}
+
+export function describeFilter(filter: RetrievalFilter): string {
+	const parts: string[] = [];
+	filter.folders.forEach(folder => parts.push(`folder:${folder}`));
+	filter.tags.forEach(tag => parts.push(`tag:#${tag}`));
+	if (filter.after) parts.push(`after:${filter.after}`);
+	if (filter.before) parts.push(`before:${filter.before}`);
+	return parts.join(' ');
+}
+
+function isValidDate(value: string): boolean {
+	return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+function startOfDay(date: string): number {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(year, month - 1, day).getTime();
+}
+
+export interface MetadataFilterOptions {
+	// Overrides the mtime stored in chunk metadata, e.g. with the live file stat
+	getModifiedTime?: (path: string) => number | undefined;
+}
+
+/**
+ * Builds a MemoryVectorStore filter function over chunk metadata.
+ * Returns undefined when the filter does not restrict anything.
+ */
+export function createMetadataFilter(filter: RetrievalFilter | undefined, options: MetadataFilterOptions = {}): ((doc: Document) => boolean) | undefined {
+	if (!filter || isFilterEmpty(filter)) return undefined;
+
+	const folders = filter.folders.map(normalizeFolder);
+	const tags = filter.tags.map(normalizeTag);
+	const after = filter.after ? startOfDay(filter.after) : undefined;
+	// 'before' is inclusive, so compare against the start of the following day
+	const before = filter.before ? startOfDay(filter.before) + 24 * 60 * 60 * 1000 : undefined;
+
+	return (doc: Document) => {
+		const path: string = doc.metadata.source || '';
+
+		if (folders.length > 0 && !folders.some(folder => path.startsWith(folder))) {
+			return false;
+		}
+
+		if (tags.length > 0) {
+			const docTags: string[] = (doc.metadata.tags || []).map(normalizeTag);
+			const hasTag = tags.some(tag => docTags.some(docTag => docTag === tag || docTag.startsWith(`${tag}/`)));
+			if (!hasTag) return false;
+		}
+
+		if (after !== undefined || before !== undefined) {
+			const mtime = options.getModifiedTime?.(path) ?? doc.metadata.mtime;
+			if (typeof mtime !== 'number') return false;
+			if (after !== undefined && mtime < after) return false;
+			if (before !== undefined && mtime >= before) return false;
+		}
+
+		return true;
+	};
+}
@@ -1,12 +1,21 @@
 import { App, Modal, MarkdownRenderer } from 'obsidian';
 import { DocumentChunk } from './types';
 import type GeminiRAGPlugin from '../main';
+import { MarkdownStream } from './markdown-stream';
+import { formatChunkLocation, formatSourceDetail, linkCitations, openChunkLocation } from './citations';
+import { FilterBar } from './filter-bar';
+import { ModePicker } from './mode-picker';
 
 export class RAGSearchModal extends Modal {
 	plugin: GeminiRAGPlugin;
 	queryInput: HTMLInputElement;
 	resultContainer: HTMLElement;
+	filterBar: FilterBar;
+	modePicker: ModePicker;
+	searchButton: HTMLButtonElement;
+	stopButton: HTMLButtonElement;
 	isSearching: boolean = false;
+	abortController: AbortController | null = null;
 
 	constructor(app: App, plugin: GeminiRAGPlugin) {
 		super(app);
@@ -25,18 +34,28 @@ export class RAGSearchModal extends Modal {
 		const inputContainer = contentEl.createDiv('search-input-container');
 		this.queryInput = inputContainer.createEl('input', {
 			type: 'text',
-			placeholder: 'Ask a question about your vault...'
+			placeholder: 'Ask a question about your vault... (folder:, tag:, after:)'
 		});
 		this.queryInput.addClass('search-input');
 
-		const searchButton = inputContainer.createEl('button', { text: 'Search' });
-		searchButton.addClass('search-button');
+		this.modePicker = new ModePicker(this.plugin, inputContainer);
+
+		this.searchButton = inputContainer.createEl('button', { text: 'Search' });
+		this.searchButton.addClass('search-button');
+
+		this.stopButton = inputContainer.createEl('button', { text: 'Stop' });
+		this.stopButton.addClass('stop-button');
+		this.stopButton.hide();
+
+		// Retrieval filters
+		this.filterBar = new FilterBar(this.app, contentEl);
 
 		// Result container
 		this.resultContainer = contentEl.createDiv('result-container');
 
 		// Event listeners
-		searchButton.addEventListener('click', () => this.performSearch());
+		this.searchButton.addEventListener('click', () => this.performSearch());
+		this.stopButton.addEventListener('click', () => this.abortController?.abort());
 		this.queryInput.addEventListener('keypress', (e) => {
 			if (e.key === 'Enter') {
 				this.performSearch();
@@ -47,45 +66,83 @@ export class RAGSearchModal extends Modal {
 		setTimeout(() => this.queryInput.focus(), 100);
 	}
 
+	setSearching(searching: boolean) {
+		this.isSearching = searching;
+		this.searchButton.toggle(!searching);
+		this.stopButton.toggle(searching);
+	}
+
 	async performSearch() {
 		const query = this.queryInput.value.trim();
 		if (!query || this.isSearching) return;
 
-		this.isSearching = true;
+		this.setSearching(true);
+		this.abortController = new AbortController();
+		const signal = this.abortController.signal;
 		this.resultContainer.empty();
 
 		const loadingEl = this.resultContainer.createDiv('loading');
 		loadingEl.setText('Searching and generating response...');
 
 		try {
-			// Show relevant chunks first
-			const relevantChunks = await this.plugin.searchSimilarChunks(query);
-
-			if (relevantChunks.length === 0) {
-				this.showNoResults();
-				return;
+			let responseEl: HTMLElement | null = null;
+			let stream: MarkdownStream | null = null;
+			let sources: DocumentChunk[] = [];
+
+			for await (const event of this.plugin.streamQueryWithRAG(query, {
+				filter: this.filterBar.getFilter(),
+				mode: this.modePicker.getMode(),
+				signal
+			})) {
+				if (event.type === 'unavailable') {
+					this.showError(event.message);
+					return;
+				}
+				if (event.type === 'sources') {
+					if (event.sources.length === 0) {
+						this.showNoResults();
+						return;
+					}
+					// Show the sources right away and stream the AI response above them
+					sources = event.sources;
+					responseEl = this.showResults(sources);
+					responseEl.addClass('is-streaming');
+					stream = new MarkdownStream(responseEl, this.plugin);
+					continue;
+				}
+				stream?.append(event.text);
 			}
 
-			// Get AI response
-			const response = await this.plugin.queryWithRAG(query);
-
-			this.showResults(query, response, relevantChunks);
+			if (stream && responseEl) {
+				if (signal.aborted) {
+					stream.append(stream.text ? '\n\n*(stopped)*' : '*(stopped)*');
+				}
+				await stream.finish();
+				responseEl.removeClass('is-streaming');
+				linkCitations(responseEl, sources, (source) => this.openSource(source));
+			} else if (signal.aborted) {
+				this.resultContainer.empty();
+			}
 		} catch (error) {
 			console.error('Search error:', error);
 			this.showError('An error occurred while searching. Please check your API key and try again.');
 		} finally {
-			this.isSearching = false;
+			this.abortController = null;
+			this.setSearching(false);
 		}
 	}
 
-	showResults(query: string, response: string, chunks: DocumentChunk[]) {
+	/**
+	 * Lays out the response and source sections and returns the element the
+	 * response is rendered into.
+	 */
+	showResults(chunks: DocumentChunk[]): HTMLElement {
 		this.resultContainer.empty();
 
 		// AI Response
 		const responseSection = this.resultContainer.createDiv('response-section');
 		responseSection.createEl('h3', { text: 'AI Response' });
 		const responseEl = responseSection.createDiv('ai-response');
-		this.renderMarkdown(response, responseEl);
 
 		// Sources
 		const sourcesSection = this.resultContainer.createDiv('sources-section');
@@ -95,9 +152,9 @@ export class RAGSearchModal extends Modal {
 			const sourceEl = sourcesSection.createDiv('source-item');
 
 			const sourceHeader = sourceEl.createDiv('source-header');
-			sourceHeader.createEl('strong', { text: chunk.fileName });
+			sourceHeader.createEl('strong', { text: `[${index + 1}] ${formatChunkLocation(chunk)}` });
 			sourceHeader.createEl('span', {
-				text: ` (${(chunk.similarity! * 100).toFixed(1)}% match)`,
+				text: ` (${formatSourceDetail(chunk)})`,
 				cls: 'similarity-score'
 			});
 
@@ -105,12 +162,16 @@ export class RAGSearchModal extends Modal {
 			sourceContent.setText(chunk.content.substring(0, 300) + (chunk.content.length > 300 ? '...' : ''));
 
 			// Add click handler to open file
-			sourceEl.addEventListener('click', () => {
-				this.app.workspace.openLinkText(chunk.filePath, '');
-				this.close();
-			});
+			sourceEl.addEventListener('click', () => this.openSource(chunk));
 			sourceEl.addClass('clickable-source');
 		});
+
+		return responseEl;
+	}
+
+	openSource(chunk: DocumentChunk) {
+		openChunkLocation(this.app, chunk);
+		this.close();
 	}
 
 	showNoResults() {
@@ -139,6 +200,7 @@ export class RAGSearchModal extends Modal {
 	}
 
 	onClose() {
+		this.abortController?.abort();
 		const { contentEl } = this;
 		contentEl.empty();
 	}
@@ -0,0 +1,47 @@
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Sliding window limiter for requests per minute. A limit of 0 or less
+ * disables it.
+ */
+export class RateLimiter {
+	requestsPerMinute: number;
+	timestamps: number[] = [];
+
+	constructor(requestsPerMinute: number) {
+		this.requestsPerMinute = requestsPerMinute;
+	}
+
+	/**
+	 * Resolves once another request may be sent. Rejects when the signal is
+	 * aborted while waiting.
+	 */
+	async wait(signal?: AbortSignal): Promise<void> {
+		if (this.requestsPerMinute <= 0) return;
+
+		for (;;) {
+			if (signal?.aborted) throw new Error('Cancelled');
+			const now = Date.now();
+			this.timestamps = this.timestamps.filter(time => now - time < WINDOW_MS);
+			if (this.timestamps.length < this.requestsPerMinute) {
+				this.timestamps.push(now);
+				return;
+			}
+			await sleep(this.timestamps[0] + WINDOW_MS - now, signal);
+		}
+	}
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new Error('Cancelled'));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
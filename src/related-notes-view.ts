@@ -0,0 +1,143 @@
+import { ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf, debounce } from 'obsidian';
+import { RELATED_NOTES_VIEW_TYPE } from './types';
+import { RelatedNote } from './related-notes';
+import { formatChunkLocation, openChunkLocation } from './citations';
+import type GeminiRAGPlugin from '../main';
+
+// Longer passages are cut off in the list, the full text is one click away
+const PASSAGE_PREVIEW_LENGTH = 200;
+
+/**
+ * Sidebar listing the notes most similar to the active note, computed from
+ * the stored vectors. Updates when another note is opened.
+ */
+export class RelatedNotesView extends ItemView {
+	plugin: GeminiRAGPlugin;
+	// The note the list was computed for, links are inserted into it
+	file: TFile | null = null;
+	titleEl: HTMLElement;
+	listEl: HTMLElement;
+	requestId = 0;
+	scheduleRefresh = debounce(() => this.refresh(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: GeminiRAGPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return RELATED_NOTES_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Related Notes";
+	}
+
+	getIcon() {
+		return "git-fork";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass('related-notes-view');
+
+		const header = container.createDiv('related-notes-header');
+		this.titleEl = header.createEl('h4', { cls: 'related-notes-title' });
+		const refreshButton = header.createEl('button', { text: 'Refresh', attr: { 'aria-label': 'Find related notes again' } });
+		refreshButton.addEventListener('click', () => this.refresh(true));
+
+		this.listEl = container.createDiv('related-notes-list');
+
+		this.registerEvent(this.app.workspace.on('file-open', () => this.scheduleRefresh()));
+		await this.refresh();
+	}
+
+	/**
+	 * Recomputes the list for the active note. Switching back to the same
+	 * note keeps the list unless forced, so a click in the sidebar does not
+	 * start over.
+	 */
+	async refresh(force = false) {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== 'md') {
+			if (!this.file) this.renderMessage('Open a note to see related notes.');
+			return;
+		}
+		if (!force && this.file?.path === file.path) return;
+
+		this.file = file;
+		this.titleEl.setText(`Related to ${file.basename}`);
+		this.renderMessage('Finding related notes...');
+
+		const requestId = ++this.requestId;
+		const related = await this.plugin.getRelatedNotes(file);
+		// Another note was opened while this one was being computed
+		if (requestId !== this.requestId) return;
+
+		if (related === null) {
+			this.renderMessage(this.plugin.vectorStore
+				? 'This note is not in the index yet.'
+				: this.plugin.getIndexUnavailableMessage());
+		} else if (related.length === 0) {
+			this.renderMessage('No other notes are indexed.');
+		} else {
+			this.renderList(related);
+		}
+	}
+
+	renderMessage(text: string) {
+		this.listEl.empty();
+		this.listEl.createDiv({ cls: 'related-notes-empty', text });
+	}
+
+	renderList(related: RelatedNote[]) {
+		this.listEl.empty();
+		const links = this.file ? this.app.metadataCache.resolvedLinks[this.file.path] ?? {} : {};
+
+		for (const note of related) {
+			const item = this.listEl.createDiv('related-note');
+
+			const header = item.createDiv('related-note-header');
+			const title = header.createEl('a', { cls: 'related-note-name', text: note.fileName.replace(/\.md$/, ''), href: '#' });
+			title.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.app.workspace.openLinkText(note.path, '', e.ctrlKey || e.metaKey);
+			});
+			header.createSpan({ cls: 'related-note-score', text: `${(note.similarity * 100).toFixed(1)}%` });
+			if (links[note.path]) {
+				header.createSpan({ cls: 'related-note-linked', text: 'linked' });
+			}
+
+			const actions = item.createDiv('related-note-actions');
+			const openButton = actions.createEl('button', { text: 'Open' });
+			openButton.addEventListener('click', () => this.app.workspace.openLinkText(note.path, '', false));
+			const linkButton = actions.createEl('button', { text: 'Insert link', attr: { 'aria-label': 'Insert a link at the cursor' } });
+			linkButton.addEventListener('click', () => this.insertLink(note.path));
+
+			const passages = item.createDiv('related-note-passages');
+			for (const passage of note.passages) {
+				const passageEl = passages.createDiv('related-note-passage');
+				passageEl.setAttr('aria-label', formatChunkLocation(passage));
+				const text = passage.content.replace(/\s+/g, ' ').trim();
+				passageEl.setText(text.length > PASSAGE_PREVIEW_LENGTH ? `${text.substring(0, PASSAGE_PREVIEW_LENGTH)}…` : text);
+				passageEl.addEventListener('click', () => openChunkLocation(this.app, passage));
+			}
+		}
+	}
+
+	/** Inserts a wiki-link at the cursor of the note the list belongs to. */
+	insertLink(path: string) {
+		const target = this.app.vault.getAbstractFileByPath(path);
+		const view = this.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === this.file?.path);
+		if (!(target instanceof TFile) || !view || !this.file) {
+			new Notice('Open the note to insert the link into');
+			return;
+		}
+
+		view.editor.replaceSelection(`[[${this.app.metadataCache.fileToLinktext(target, this.file.path)}]]`);
+		new Notice(`Linked ${target.basename}`);
+	}
+}
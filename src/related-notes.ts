@@ -0,0 +1,62 @@
+import { DocumentChunk } from './types';
+import { MemoryVector, toDocumentChunk } from './retriever';
+
+export interface RelatedNote {
+	path: string;
+	fileName: string;
+	// Best similarity between a chunk of this note and a chunk of the source note
+	similarity: number;
+	// The chunks of this note that matched, most similar first
+	passages: DocumentChunk[];
+}
+
+// Passages well below the best match of a note are not worth showing
+const PASSAGE_SIMILARITY_RATIO = 0.9;
+
+export interface RelatedNotesOptions {
+	limit: number;
+	passagesPerNote: number;
+	similarity: (a: number[], b: number[]) => number;
+}
+
+/**
+ * Ranks the other notes in the index by how close their chunks are to the
+ * chunks of the given note. Works on the stored vectors only, so no
+ * embedding requests are made. Returns null when the note is not indexed.
+ */
+export function findRelatedNotes(vectors: MemoryVector[], path: string, options: RelatedNotesOptions): RelatedNote[] | null {
+	const own = vectors.filter(vector => vector.metadata.source === path);
+	if (own.length === 0) return null;
+
+	const byNote = new Map<string, { vector: MemoryVector; similarity: number }[]>();
+	for (const vector of vectors) {
+		const source = vector.metadata.source;
+		if (!source || source === path) continue;
+
+		let similarity = -1;
+		for (const ownVector of own) {
+			similarity = Math.max(similarity, options.similarity(ownVector.embedding, vector.embedding));
+		}
+
+		const matches = byNote.get(source);
+		if (matches) matches.push({ vector, similarity });
+		else byNote.set(source, [{ vector, similarity }]);
+	}
+
+	return Array.from(byNote.entries())
+		.map(([source, matches]) => {
+			matches.sort((a, b) => b.similarity - a.similarity);
+			const best = matches[0].similarity;
+			return {
+				path: source,
+				fileName: matches[0].vector.metadata.fileName || source,
+				similarity: best,
+				passages: matches
+					.filter(match => match.similarity >= best * PASSAGE_SIMILARITY_RATIO)
+					.slice(0, options.passagesPerNote)
+					.map(match => toDocumentChunk(match.vector, match.similarity))
+			};
+		})
+		.sort((a, b) => b.similarity - a.similarity)
+		.slice(0, options.limit);
+}
@@ -0,0 +1,313 @@
+import { Document } from '@langchain/core/documents';
+import type { MemoryVectorStore } from 'langchain/vectorstores/memory';
+import { KeywordIndex } from './keyword-index';
+import { DocumentChunk, GeminiRAGSettings } from './types';
+import { expandLinks } from './link-graph';
+
+export type MemoryVector = MemoryVectorStore['memoryVectors'][number];
+
+export interface RetrievalOptions {
+	k: number;
+	filter?: (doc: Document) => boolean;
+	// Share of the fused ranking given to keyword matches: 0 is pure vector search, 1 pure keyword search
+	keywordWeight: number;
+	// Minimum cosine similarity; chunks that matched by keyword are kept regardless
+	similarityThreshold?: number;
+	// Enables maximal marginal relevance: 1 ranks by relevance only, 0 by diversity only
+	mmrLambda?: number;
+	// Maximum number of chunks from the same note, 0 for no limit
+	maxChunksPerFile?: number;
+	// Adds chunks from notes linked to or from the notes of the results
+	linkExpansion?: LinkExpansionOptions;
+}
+
+export interface LinkExpansionOptions {
+	// How many links to follow from the notes of the results
+	hops: number;
+	// Multiplies the score once per hop, 0..1
+	weight: number;
+	// Maximum number of linked chunks, at most one per linked note. They take
+	// the places of the last direct results, so k is never exceeded.
+	maxResults: number;
+	getLinkedPaths: (path: string) => string[];
+}
+
+interface Candidate {
+	id: string;
+	vector: MemoryVector;
+	similarity: number;
+	// Ranking score scaled to 0..1, used as the relevance term of MMR
+	relevance: number;
+	keywordMatch: boolean;
+}
+
+// Standard constant from the original RRF paper, dampens the impact of top ranks
+const RRF_RANK_CONSTANT = 60;
+// How many candidates each ranking contributes before fusion, relative to k
+const CANDIDATE_FACTOR = 4;
+
+/**
+ * Merges ranked ID lists by summing weight / (rankConstant + rank) per list.
+ */
+export function reciprocalRankFusion(rankings: string[][], weights: number[], rankConstant = RRF_RANK_CONSTANT): Map<string, number> {
+	const scores = new Map<string, number>();
+	rankings.forEach((ranking, listIndex) => {
+		const weight = weights[listIndex] ?? 1;
+		if (weight <= 0) return;
+		ranking.forEach((id, rank) => {
+			scores.set(id, (scores.get(id) || 0) + weight / (rankConstant + rank + 1));
+		});
+	});
+	return scores;
+}
+
+function isPresent<T>(value: T | null | undefined): value is T {
+	return value !== null && value !== undefined;
+}
+
+export function vectorId(vector: MemoryVector, index: number): string {
+	return vector.id ?? `legacy-${index}`;
+}
+
+export function toDocumentChunk(vector: MemoryVector, similarity: number): DocumentChunk {
+	const metadata = vector.metadata;
+	return {
+		content: vector.content,
+		filePath: metadata.source || '',
+		fileName: metadata.fileName || '',
+		similarity: Math.round(similarity * 100) / 100,
+		startOffset: metadata.startOffset,
+		endOffset: metadata.endOffset,
+		startLine: metadata.startLine,
+		endLine: metadata.endLine,
+		headingPath: metadata.headingPath,
+		page: metadata.page,
+		nodeId: metadata.nodeId
+	};
+}
+
+/** Ranking options from the settings; filters and link expansion are added by the caller. */
+export function getRetrievalOptions(settings: GeminiRAGSettings): RetrievalOptions {
+	return {
+		k: settings.maxResults,
+		keywordWeight: settings.keywordWeight,
+		similarityThreshold: settings.similarityThreshold,
+		mmrLambda: settings.useMMR ? settings.mmrLambda : undefined,
+		maxChunksPerFile: settings.maxChunksPerFile
+	};
+}
+
+/**
+ * Retrieves chunks by combining cosine similarity over the stored vectors with
+ * BM25 keyword matches, so exact identifiers and names are found even when
+ * their embeddings are not close to the query.
+ */
+export class HybridRetriever {
+	vectorStore: MemoryVectorStore;
+	keywordIndex: KeywordIndex | null;
+
+	constructor(vectorStore: MemoryVectorStore, keywordIndex: KeywordIndex | null) {
+		this.vectorStore = vectorStore;
+		this.keywordIndex = keywordIndex;
+	}
+
+	async search(query: string, options: RetrievalOptions): Promise<DocumentChunk[]> {
+		const vectors = this.vectorStore.memoryVectors;
+		if (vectors.length === 0 || options.k <= 0) return [];
+
+		const byId = new Map<string, MemoryVector>();
+		vectors.forEach((vector, index) => byId.set(vectorId(vector, index), vector));
+
+		const accepted = new Map<string, boolean>();
+		const accept = (id: string): boolean => {
+			if (!options.filter) return true;
+			let result = accepted.get(id);
+			if (result === undefined) {
+				const vector = byId.get(id);
+				result = !!vector && options.filter(new Document({ pageContent: vector.content, metadata: vector.metadata, id }));
+				accepted.set(id, result);
+			}
+			return result;
+		};
+
+		const queryEmbedding = await this.vectorStore.embeddings.embedQuery(query);
+		if (queryEmbedding.length !== vectors[0].embedding.length) {
+			throw new Error(`The query embedding has ${queryEmbedding.length} dimensions but the index has ${vectors[0].embedding.length}. Rebuild the embeddings database.`);
+		}
+		const similarities = new Map<string, number>();
+		const similarityOf = (id: string) => {
+			let similarity = similarities.get(id);
+			if (similarity === undefined) {
+				const vector = byId.get(id);
+				similarity = vector ? this.vectorStore.similarity(queryEmbedding, vector.embedding) : 0;
+				similarities.set(id, similarity);
+			}
+			return similarity;
+		};
+		const toCandidate = (id: string, relevance: number, keywordMatch: boolean): Candidate | null => {
+			const vector = byId.get(id);
+			return vector ? { id, vector, similarity: similarityOf(id), relevance, keywordMatch } : null;
+		};
+
+		const candidateCount = options.k * CANDIDATE_FACTOR;
+		const vectorRanking = Array.from(byId.keys())
+			.filter(accept)
+			.sort((a, b) => similarityOf(b) - similarityOf(a))
+			.slice(0, candidateCount);
+
+		const keywordIndex = this.keywordIndex;
+		const keywordWeight = Math.min(1, Math.max(0, options.keywordWeight));
+		let candidates: Candidate[];
+
+		if (!keywordIndex || keywordWeight === 0) {
+			candidates = vectorRanking.map(id => toCandidate(id, similarityOf(id), false)).filter(isPresent);
+		} else {
+			const keywordRanking = keywordIndex
+				.search(query, candidateCount, id => byId.has(id) && accept(id))
+				.map(match => match.id);
+			const keywordMatches = new Set(keywordRanking);
+
+			const fused = Array.from(reciprocalRankFusion([vectorRanking, keywordRanking], [1 - keywordWeight, keywordWeight]).entries())
+				.sort((a, b) => b[1] - a[1]);
+			const topScore = fused.length > 0 ? fused[0][1] : 1;
+
+			candidates = fused.map(([id, score]) => toCandidate(id, score / topScore, keywordMatches.has(id))).filter(isPresent);
+		}
+
+		const threshold = options.similarityThreshold ?? 0;
+		candidates = candidates.filter(candidate => candidate.keywordMatch || candidate.similarity >= threshold);
+
+		const selected = options.mmrLambda !== undefined
+			? this.selectByMMR(candidates, options.k, options.mmrLambda, options.maxChunksPerFile ?? 0)
+			: this.selectInOrder(candidates, options.k, options.maxChunksPerFile ?? 0);
+
+		const toResults = (candidates: Candidate[]) => candidates.map(candidate => toDocumentChunk(candidate.vector, candidate.similarity));
+		const expansion = options.linkExpansion;
+		const maxLinked = expansion ? Math.min(expansion.maxResults, options.k - 1) : 0;
+		if (!expansion || expansion.hops <= 0 || maxLinked <= 0 || selected.length === 0) return toResults(selected);
+
+		// Links are followed from the results that keep their place, and linked
+		// chunks fill the places left, so there are never more than k results
+		const linked = this.expandByLinks(selected.slice(0, options.k - maxLinked), selected, { ...expansion, maxResults: maxLinked },
+			byId, accept, similarityOf, threshold, options.maxChunksPerFile ?? 0);
+		return [...toResults(selected.slice(0, options.k - linked.length)), ...linked];
+	}
+
+	/**
+	 * Keyword matches only, best first. The chunks have no similarity to the
+	 * query and are marked with the 'keyword' origin instead.
+	 */
+	keywordSearch(query: string, k: number, filter?: (doc: Document) => boolean): DocumentChunk[] {
+		if (!this.keywordIndex || k <= 0) return [];
+
+		const byId = new Map<string, MemoryVector>();
+		this.vectorStore.memoryVectors.forEach((vector, index) => byId.set(vectorId(vector, index), vector));
+
+		return this.keywordIndex
+			.search(query, k, id => {
+				const vector = byId.get(id);
+				return !!vector && (!filter || filter(new Document({ pageContent: vector.content, metadata: vector.metadata, id })));
+			})
+			.map(match => byId.get(match.id))
+			.filter(isPresent)
+			.map(vector => ({ ...toDocumentChunk(vector, 0), similarity: undefined, origin: 'keyword' as const }));
+	}
+
+	/**
+	 * Graph expansion: follows links from the notes of the seed chunks and
+	 * takes the chunk most similar to the query from each note reached. A
+	 * chunk is ranked by its similarity times the decayed score of the note it
+	 * was reached through, and must pass the filter and similarity threshold
+	 * like any other result. Chunks already selected and notes that have
+	 * maxChunksPerFile selected chunks are skipped.
+	 */
+	expandByLinks(seeds: Candidate[], selected: Candidate[], expansion: LinkExpansionOptions, byId: Map<string, MemoryVector>,
+		accept: (id: string) => boolean, similarityOf: (id: string) => number, threshold: number, maxChunksPerFile: number): DocumentChunk[] {
+		const start = new Map<string, number>();
+		for (const candidate of seeds) {
+			const source = candidate.vector.metadata.source;
+			start.set(source, Math.max(start.get(source) ?? 0, candidate.relevance));
+		}
+
+		const reached = expandLinks(start, expansion.getLinkedPaths, expansion.hops, Math.min(1, Math.max(0, expansion.weight)));
+		if (reached.size === 0) return [];
+
+		const selectedIds = new Set(selected.map(candidate => candidate.id));
+		const perFile = new Map<string, number>();
+		selected.forEach(candidate => perFile.set(candidate.vector.metadata.source, (perFile.get(candidate.vector.metadata.source) ?? 0) + 1));
+
+		const best = new Map<string, { id: string; vector: MemoryVector; score: number; from: string; hops: number }>();
+		for (const [id, vector] of byId) {
+			const source = vector.metadata.source;
+			const note = reached.get(source);
+			if (!note || selectedIds.has(id) || !accept(id) || similarityOf(id) < threshold) continue;
+			if (maxChunksPerFile > 0 && (perFile.get(source) ?? 0) >= maxChunksPerFile) continue;
+			const score = note.score * similarityOf(id);
+			const current = best.get(source);
+			if (!current || score > current.score) best.set(source, { id, vector, score, from: note.from, hops: note.hops });
+		}
+
+		return Array.from(best.values())
+			.sort((a, b) => b.score - a.score)
+			.slice(0, expansion.maxResults)
+			.map(({ id, vector, from, hops }) => ({ ...toDocumentChunk(vector, similarityOf(id)), linkedFrom: { path: from, hops } }));
+	}
+
+	selectInOrder(candidates: Candidate[], k: number, maxChunksPerFile: number): Candidate[] {
+		const selected: Candidate[] = [];
+		const perFile = new Map<string, number>();
+
+		for (const candidate of candidates) {
+			if (selected.length >= k) break;
+			const source = candidate.vector.metadata.source;
+			const count = perFile.get(source) || 0;
+			if (maxChunksPerFile > 0 && count >= maxChunksPerFile) continue;
+			perFile.set(source, count + 1);
+			selected.push(candidate);
+		}
+
+		return selected;
+	}
+
+	/**
+	 * Greedily picks the candidate with the best trade-off between relevance and
+	 * dissimilarity to what was already picked, so near-duplicate chunks don't
+	 * crowd out other notes.
+	 */
+	selectByMMR(candidates: Candidate[], k: number, lambda: number, maxChunksPerFile: number): Candidate[] {
+		const selected: Candidate[] = [];
+		const perFile = new Map<string, number>();
+		const remaining = [...candidates];
+		const maxSimilarity = new Map<string, number>();
+
+		while (selected.length < k && remaining.length > 0) {
+			let bestIndex = -1;
+			let bestScore = -Infinity;
+
+			remaining.forEach((candidate, index) => {
+				const source = candidate.vector.metadata.source;
+				if (maxChunksPerFile > 0 && (perFile.get(source) || 0) >= maxChunksPerFile) return;
+				const redundancy = maxSimilarity.get(candidate.id) ?? 0;
+				const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+				if (score > bestScore) {
+					bestScore = score;
+					bestIndex = index;
+				}
+			});
+
+			if (bestIndex === -1) break;
+
+			const [picked] = remaining.splice(bestIndex, 1);
+			selected.push(picked);
+			const source = picked.vector.metadata.source;
+			perFile.set(source, (perFile.get(source) || 0) + 1);
+
+			for (const candidate of remaining) {
+				const similarity = this.vectorStore.similarity(picked.vector.embedding, candidate.vector.embedding);
+				maxSimilarity.set(candidate.id, Math.max(maxSimilarity.get(candidate.id) ?? 0, similarity));
+			}
+		}
+
+		return selected;
+	}
+}
@@ -0,0 +1,50 @@
+export interface SelectionAction {
+	id: string;
+	name: string;
+	// Heading of the preview and of inserted callouts
+	title: string;
+	// Turns the selected text into the question sent to the model
+	buildPrompt: (selection: string) => string;
+}
+
+/**
+ * Editor commands that run a RAG query on the selected text. Retrieval always
+ * searches for the selection itself, the prompt only changes what the model
+ * is asked to do with the retrieved notes.
+ */
+export const SELECTION_ACTIONS: SelectionAction[] = [
+	{
+		id: 'gemini-rag-query',
+		name: 'Query with RAG Context',
+		title: 'Answer',
+		buildPrompt: (selection) => selection
+	},
+	{
+		id: 'gemini-rag-explain-selection',
+		name: 'Explain selection using my notes',
+		title: 'Explanation',
+		buildPrompt: (selection) => `Explain the following text using my notes. Describe what it means and how it connects to what I have written elsewhere.
+
+${selection}`
+	},
+	{
+		id: 'gemini-rag-related-notes',
+		name: 'Find related notes for selection',
+		title: 'Related notes',
+		buildPrompt: (selection) => `Which of my notes are related to the following text? Give a bulleted list with one entry per related note, naming the note and explaining in one sentence how it relates. Skip passages that are not actually related.
+
+${selection}`
+	}
+];
+
+/** The answer followed by a numbered list of its sources, so [n] citations still resolve. */
+export function formatAnswer(answer: string, sourceLinks: string[]): string {
+	const text = answer.trim();
+	if (sourceLinks.length === 0) return text;
+	return `${text}\n\nSources:\n${sourceLinks.map((link, index) => `${index + 1}. ${link}`).join('\n')}`;
+}
+
+export function formatAnswerCallout(title: string, answer: string, sourceLinks: string[]): string {
+	const lines = [`[!info] ${title}`, ...formatAnswer(answer, sourceLinks).split('\n')];
+	return lines.map(line => line ? `> ${line}` : '>').join('\n');
+}
@@ -0,0 +1,142 @@
+import { App, Editor, EditorPosition, Modal, Notice } from 'obsidian';
+import { DocumentChunk } from './types';
+import type GeminiRAGPlugin from '../main';
+import { MarkdownStream } from './markdown-stream';
+import { formatChunkLocation, formatSourceLink, linkCitations, openChunkLocation } from './citations';
+import { SelectionAction, formatAnswer, formatAnswerCallout } from './selection-actions';
+
+/**
+ * Previews the answer to a selection action and lets the user put it into
+ * the note: below the selection, in place of it, or as a callout.
+ */
+export class SelectionAnswerModal extends Modal {
+	plugin: GeminiRAGPlugin;
+	editor: Editor;
+	action: SelectionAction;
+	selection: string;
+	// The note the answer will be written into, for relative source links
+	sourcePath: string;
+	from: EditorPosition;
+	to: EditorPosition;
+	answer = '';
+	sources: DocumentChunk[] = [];
+	responseEl: HTMLElement;
+	sourcesEl: HTMLElement;
+	stopButton: HTMLButtonElement;
+	insertButtons: HTMLButtonElement[] = [];
+	abortController: AbortController | null = null;
+
+	constructor(app: App, plugin: GeminiRAGPlugin, editor: Editor, action: SelectionAction, sourcePath: string) {
+		super(app);
+		this.plugin = plugin;
+		this.editor = editor;
+		this.action = action;
+		this.sourcePath = sourcePath;
+		this.selection = editor.getSelection();
+		this.from = editor.getCursor('from');
+		this.to = editor.getCursor('to');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('gemini-rag-modal', 'selection-answer-modal');
+
+		contentEl.createEl('h2', { text: this.action.title });
+		this.responseEl = contentEl.createDiv('ai-response');
+		this.sourcesEl = contentEl.createDiv('selection-answer-sources');
+
+		const buttons = contentEl.createDiv('selection-answer-buttons');
+		this.stopButton = buttons.createEl('button', { text: 'Stop', cls: 'stop-button' });
+		this.stopButton.addEventListener('click', () => this.abortController?.abort());
+
+		const addInsertButton = (text: string, onClick: () => void, cta = false) => {
+			const button = buttons.createEl('button', { text, cls: cta ? 'mod-cta' : '' });
+			button.disabled = true;
+			button.addEventListener('click', () => {
+				onClick();
+				this.close();
+			});
+			this.insertButtons.push(button);
+		};
+		addInsertButton('Insert below', () => this.insertBelow(formatAnswer(this.answer, this.getSourceLinks())), true);
+		addInsertButton('Replace selection', () => this.replaceSelection());
+		addInsertButton('Append as callout', () => this.insertBelow(formatAnswerCallout(this.action.title, this.answer, this.getSourceLinks())));
+
+		this.generate();
+	}
+
+	async generate() {
+		this.abortController = new AbortController();
+		const signal = this.abortController.signal;
+		this.responseEl.addClass('is-streaming');
+		this.responseEl.setText('Searching your notes...');
+		const stream = new MarkdownStream(this.responseEl, this.plugin);
+
+		try {
+			for await (const event of this.plugin.streamQueryWithRAG(this.action.buildPrompt(this.selection), {
+				retrievalQuery: this.selection,
+				signal
+			})) {
+				if (event.type === 'unavailable') {
+					this.responseEl.setText(event.message);
+					return;
+				}
+				if (event.type === 'sources') {
+					this.sources = event.sources;
+					this.renderSources();
+					continue;
+				}
+				stream.append(event.text);
+			}
+			await stream.finish();
+			this.answer = stream.text;
+			linkCitations(this.responseEl, this.sources, (source) => openChunkLocation(this.app, source));
+		} catch (error) {
+			console.error('Selection query failed:', error);
+			this.responseEl.setText('An error occurred while generating the answer. Please check your settings and try again.');
+		} finally {
+			this.responseEl.removeClass('is-streaming');
+			this.abortController = null;
+			this.stopButton.hide();
+			// Without sources there is nothing from the notes to insert
+			const canInsert = this.answer.trim() !== '' && this.sources.length > 0;
+			this.insertButtons.forEach(button => button.disabled = !canInsert);
+		}
+	}
+
+	renderSources() {
+		this.sourcesEl.empty();
+		if (this.sources.length === 0) return;
+
+		this.sourcesEl.createEl('small', { text: 'Sources:' });
+		const list = this.sourcesEl.createEl('ol');
+		for (const source of this.sources) {
+			const link = list.createEl('li').createEl('a', { text: formatChunkLocation(source), href: '#' });
+			link.addEventListener('click', (e) => {
+				e.preventDefault();
+				openChunkLocation(this.app, source);
+			});
+		}
+	}
+
+	getSourceLinks(): string[] {
+		return this.sources.map(source => formatSourceLink(this.app, source, this.sourcePath));
+	}
+
+	insertBelow(text: string) {
+		const endOfLine = { line: this.to.line, ch: this.editor.getLine(this.to.line).length };
+		this.editor.replaceRange(`\n\n${text}\n`, endOfLine);
+		new Notice(`${this.action.title} inserted`);
+	}
+
+	replaceSelection() {
+		this.editor.replaceRange(formatAnswer(this.answer, this.getSourceLinks()), this.from, this.to);
+	}
+
+	onClose() {
+		this.abortController?.abort();
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,8 +1,17 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import type GeminiRAGPlugin from '../main';
+import { CHAT_PROVIDERS, EMBEDDING_PROVIDERS, ProviderId, getChatProvider } from './providers';
+import { ChunkingStrategy } from './types';
+import { BUILT_IN_PROMPT_MODES, PROMPT_VARIABLES, PromptMode } from './prompt-templates';
+import type { VectorQuantization } from './index-store';
+import type { ImageIndexing } from './extractors';
+import { generateApiToken } from './api-server';
+import { fillDatalist, getFolderSuggestions, getTagSuggestions } from './vault-suggestions';
 
 export class GeminiRAGSettingTab extends PluginSettingTab {
 	plugin: GeminiRAGPlugin;
+	// Answer mode whose template editor is open
+	expandedMode: string | null = null;
 
 	constructor(app: App, plugin: GeminiRAGPlugin) {
 		super(app, plugin);
@@ -15,42 +24,41 @@ export class GeminiRAGSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'Gemini RAG Plugin Settings' });
 
-		// API Key
+		// Providers
 		new Setting(containerEl)
-			.setName('Gemini API Key')
-			.setDesc('Your Google AI Studio API key. Get one from https://makersuite.google.com/app/apikey')
-			.addText(text => text
-				.setPlaceholder('Enter your API key')
-				.setValue(this.plugin.settings.apiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.apiKey = value;
-					await this.plugin.saveSettings();
-				}));
+			.setName('Chat Provider')
+			.setDesc('The backend used to generate answers')
+			.addDropdown(dropdown => {
+				Object.values(CHAT_PROVIDERS).forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown
+					.setValue(this.plugin.settings.chatProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.chatProvider = value as ProviderId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
 
-		// Embedding Model
 		new Setting(containerEl)
-			.setName('Embedding Model')
-			.setDesc('The Gemini model to use for generating embeddings')
-			.addDropdown(dropdown => dropdown
-				.addOption('text-embedding-004', 'text-embedding-004 (Recommended)')
-				.setValue(this.plugin.settings.embeddingModel)
-				.onChange(async (value) => {
-					this.plugin.settings.embeddingModel = value;
-					await this.plugin.saveSettings();
-				}));
+			.setName('Embedding Provider')
+			.setDesc('The backend used to embed your notes. Changing it requires rebuilding the embeddings database.')
+			.addDropdown(dropdown => {
+				Object.values(EMBEDDING_PROVIDERS).forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown
+					.setValue(this.plugin.settings.embeddingProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingProvider = value as ProviderId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
 
-		// Generative Model
-		new Setting(containerEl)
-			.setName('Generative Model')
-			.setDesc('The Gemini model to use for generating responses')
-			.addDropdown(dropdown => dropdown
-				.addOption('gemini-1.5-flash', 'Gemini 1.5 Flash (Fast)')
-				.addOption('gemini-1.5-pro', 'Gemini 1.5 Pro (Better quality)')
-				.setValue(this.plugin.settings.generativeModel)
-				.onChange(async (value) => {
-					this.plugin.settings.generativeModel = value;
-					await this.plugin.saveSettings();
-				}));
+		const usedProviders = new Set([this.plugin.settings.chatProvider, this.plugin.settings.embeddingProvider]);
+		if (usedProviders.has('gemini')) this.displayGeminiSettings(containerEl);
+		if (usedProviders.has('openai')) this.displayOpenAISettings(containerEl);
+		if (usedProviders.has('ollama')) this.displayOllamaSettings(containerEl);
+
+		containerEl.createEl('h3', { text: 'Retrieval' });
 
 		// Max Results
 		new Setting(containerEl)
@@ -65,10 +73,23 @@ export class GeminiRAGSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Keyword Weight
+		new Setting(containerEl)
+			.setName('Keyword Search Weight')
+			.setDesc('How much exact keyword matches (BM25) count against semantic similarity when ranking results. 0 uses semantic search only, 1 keyword search only.')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.05)
+				.setValue(this.plugin.settings.keywordWeight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.keywordWeight = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Similarity Threshold
 		new Setting(containerEl)
 			.setName('Similarity Threshold')
-			.setDesc('Minimum similarity score for including results (0.0 - 1.0)')
+			.setDesc('Minimum semantic similarity for including results (0.0 - 1.0). Exact keyword matches are always included.')
 			.addSlider(slider => slider
 				.setLimits(0.1, 1.0, 0.05)
 				.setValue(this.plugin.settings.similarityThreshold)
@@ -78,6 +99,86 @@ export class GeminiRAGSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Chunks Per File
+		new Setting(containerEl)
+			.setName('Max Chunks Per Note')
+			.setDesc('Limit how many chunks of the same note are used as context, so answers draw on more notes (0 for no limit)')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.maxChunksPerFile)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxChunksPerFile = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// MMR
+		new Setting(containerEl)
+			.setName('Diversify Results (MMR)')
+			.setDesc('Use maximal marginal relevance to skip chunks that repeat what is already in the context')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useMMR)
+				.onChange(async (value) => {
+					this.plugin.settings.useMMR = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.useMMR) {
+			new Setting(containerEl)
+				.setName('MMR Relevance Weight')
+				.setDesc('Trade-off between relevance (1.0) and diversity (0.0)')
+				.addSlider(slider => slider
+					.setLimits(0, 1, 0.05)
+					.setValue(this.plugin.settings.mmrLambda)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.mmrLambda = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Link expansion
+		new Setting(containerEl)
+			.setName('Link Expansion Hops')
+			.setDesc('Also use passages from notes linked to or from the notes of the results, following this many links (0 to disable). Linked passages take up to half of the Max Search Results places.')
+			.addSlider(slider => slider
+				.setLimits(0, 3, 1)
+				.setValue(this.plugin.settings.linkExpansionHops)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.linkExpansionHops = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.linkExpansionHops > 0) {
+			new Setting(containerEl)
+				.setName('Link Expansion Weight')
+				.setDesc('How much a linked passage counts compared to the result it was reached from, applied again for every further hop')
+				.addSlider(slider => slider
+					.setLimits(0.05, 1, 0.05)
+					.setValue(this.plugin.settings.linkExpansionWeight)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.linkExpansionWeight = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Chunking Strategy
+		new Setting(containerEl)
+			.setName('Chunking Strategy')
+			.setDesc('How notes are split before embedding. Markdown-aware chunks follow headings, keep code blocks and tables intact and include the note title and section. Rebuild embeddings after changing this.')
+			.addDropdown(dropdown => dropdown
+				.addOption('recursive', 'Fixed size (character splitter)')
+				.addOption('markdown', 'Markdown-aware (by headings)')
+				.setValue(this.plugin.settings.chunkingStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.chunkingStrategy = value as ChunkingStrategy;
+					await this.plugin.saveSettings();
+				}));
+
 		// Chunk Size
 		new Setting(containerEl)
 			.setName('Chunk Size')
@@ -104,13 +205,201 @@ export class GeminiRAGSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		containerEl.createEl('h3', { text: 'Chat' });
+
+		// History Turns
+		new Setting(containerEl)
+			.setName('Conversation Memory')
+			.setDesc('Number of previous question/answer turns used to understand follow-up questions (0 disables memory)')
+			.addSlider(slider => slider
+				.setLimits(0, 20, 1)
+				.setValue(this.plugin.settings.historyTurns)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.historyTurns = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// History Token Budget
+		new Setting(containerEl)
+			.setName('Conversation Memory Budget')
+			.setDesc('Maximum number of tokens (estimated) of previous messages sent with each question')
+			.addSlider(slider => slider
+				.setLimits(250, 8000, 250)
+				.setValue(this.plugin.settings.historyTokenBudget)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.historyTokenBudget = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Context budget
+		new Setting(containerEl)
+			.setName('Context Token Budget')
+			.setDesc('Maximum number of tokens (estimated) of note content sent with each question. Retrieved passages share it with the active, pinned and linked notes added in the chat view.')
+			.addSlider(slider => slider
+				.setLimits(1000, 32000, 500)
+				.setValue(this.plugin.settings.contextTokenBudget)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.contextTokenBudget = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Export folder
+		new Setting(containerEl)
+			.setName('Chat Export Folder')
+			.setDesc('Folder for notes created by "Export conversation to note"')
+			.addText(text => text
+				.setPlaceholder('RAG Chats')
+				.setValue(this.plugin.settings.chatExportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.chatExportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Agent steps
+		new Setting(containerEl)
+			.setName('Agent Max Steps')
+			.setDesc('Number of tool calls (searches, reads, note changes) the agent may make before it has to answer')
+			.addSlider(slider => slider
+				.setLimits(1, 20, 1)
+				.setValue(this.plugin.settings.agentMaxSteps)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.agentMaxSteps = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayPromptModes(containerEl);
+
+		containerEl.createEl('h3', { text: 'Indexing' });
+
+		// Auto update
+		new Setting(containerEl)
+			.setName('Update Embeddings Automatically')
+			.setDesc('Re-embed notes when they are created, modified, renamed or deleted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoUpdateEmbeddings)
+				.onChange(async (value) => {
+					this.plugin.settings.autoUpdateEmbeddings = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Vector storage
+		new Setting(containerEl)
+			.setName('Vector Storage')
+			.setDesc('Compressed 8-bit vectors use a quarter of the disk space and memory at a small cost in accuracy. Applies the next time embeddings are saved.')
+			.addDropdown(dropdown => dropdown
+				.addOption('float32', 'Full precision (float32)')
+				.addOption('int8', 'Compressed (int8)')
+				.setValue(this.plugin.settings.vectorQuantization)
+				.onChange(async (value) => {
+					this.plugin.settings.vectorQuantization = value as VectorQuantization;
+					await this.plugin.saveSettings();
+				}));
+
+		// Embedding rate limit
+		new Setting(containerEl)
+			.setName('Embedding Requests Per Minute')
+			.setDesc('Limits embedding requests while building the database to stay within provider quotas. 0 means no limit.')
+			.addText(text => text
+				.setPlaceholder('100')
+				.setValue(String(this.plugin.settings.embeddingRequestsPerMinute))
+				.onChange(async (value) => {
+					const requests = parseInt(value, 10);
+					this.plugin.settings.embeddingRequestsPerMinute = isNaN(requests) || requests < 0 ? 0 : requests;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Included Notes' });
+
+		// Folder and pattern rules
+		this.displayListSetting(containerEl, 'includeFolders', 'Only Index Folders',
+			'When set, only notes inside these folders are indexed', 'Projects/', () => getFolderSuggestions(this.app));
+		this.displayListSetting(containerEl, 'excludeFolders', 'Excluded Folders',
+			'Notes inside these folders are never indexed, e.g. templates or archives', 'Templates/', () => getFolderSuggestions(this.app));
+		this.displayListSetting(containerEl, 'excludePatterns', 'Excluded Patterns',
+			'Glob patterns matched against the note path. * matches within a folder, ** across folders.', '**/*.excalidraw.md', () => []);
+		this.displayListSetting(containerEl, 'excludeTags', 'Excluded Tags',
+			'Notes with any of these tags (or tags nested below them) are not indexed', '#private', () => getTagSuggestions(this.app));
+
+		// Frontmatter opt-out
+		new Setting(containerEl)
+			.setName('Opt-out Frontmatter Key')
+			.setDesc('Notes with this frontmatter key set to false (e.g. "rag: false") are not indexed. Leave empty to disable.')
+			.addText(text => text
+				.setPlaceholder('rag')
+				.setValue(this.plugin.settings.excludeFrontmatterKey)
+				.onChange(async (value) => {
+					this.plugin.settings.excludeFrontmatterKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Other File Types' });
+
+		// PDFs
+		new Setting(containerEl)
+			.setName('Index PDFs')
+			.setDesc('Index the text of PDF files page by page. Scanned PDFs without a text layer are skipped.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indexPdfs)
+				.onChange(async (value) => {
+					this.plugin.settings.indexPdfs = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Canvases
+		new Setting(containerEl)
+			.setName('Index Canvases')
+			.setDesc('Index the cards of canvas files, each with its own citation')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indexCanvases)
+				.onChange(async (value) => {
+					this.plugin.settings.indexCanvases = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Images
+		new Setting(containerEl)
+			.setName('Index Images')
+			.setDesc('Describe PNG, JPEG and WebP images and transcribe their text with a vision model. Every image costs one request. "Mock" indexes placeholder text without any request, for trying this out offline.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('vision', 'Vision model')
+				.addOption('mock', 'Mock (offline)')
+				.setValue(this.plugin.settings.imageIndexing)
+				.onChange(async (value) => {
+					this.plugin.settings.imageIndexing = value as ImageIndexing;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.imageIndexing === 'vision') {
+			new Setting(containerEl)
+				.setName('Vision Model')
+				.setDesc('Model of the chat provider used to describe images. It has to accept images. Leave empty to use the chat model.')
+				.addText(text => text
+					.setPlaceholder(getChatProvider(this.plugin.settings.chatProvider).getModelName(this.plugin.settings))
+					.setValue(this.plugin.settings.visionModel)
+					.onChange(async (value) => {
+						this.plugin.settings.visionModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		containerEl.createEl('p', {
+			text: 'Files of newly enabled types are indexed by "Update Changed Files" or the next rebuild.',
+			cls: 'setting-item-description'
+		});
+
 		// Actions section
 		containerEl.createEl('h3', { text: 'Actions' });
 
 		// Rebuild embeddings button
 		new Setting(containerEl)
 			.setName('Rebuild Embeddings Database')
-			.setDesc('Process all markdown files and create new embeddings. This may take several minutes.')
+			.setDesc('Process all indexed files and create new embeddings. This may take several minutes.')
 			.addButton(button => button
 				.setButtonText('Rebuild Embeddings')
 				.setCta()
@@ -118,11 +407,505 @@ export class GeminiRAGSettingTab extends PluginSettingTab {
 					await this.plugin.rebuildEmbeddings();
 				}));
 
+		// Update changed files button
+		new Setting(containerEl)
+			.setName('Update Changed Files')
+			.setDesc('Only re-embed files that were added, changed or removed since the last update.')
+			.addButton(button => button
+				.setButtonText('Update Embeddings')
+				.onClick(async () => {
+					await this.plugin.updateChangedEmbeddings();
+				}));
+
 		// Stats
 		const totalChunks = this.plugin.getTotalChunks();
 		containerEl.createEl('p', {
-			text: `Current database: ${totalChunks} chunks from ${this.plugin.embeddingCache.size} files`,
+			text: `Current database: ${totalChunks} chunks from ${this.plugin.indexManifest.size()} files`,
 			cls: 'setting-item-description'
 		});
+
+		// Embedding cache, read from disk only when shown
+		const cacheSetting = new Setting(containerEl)
+			.setName('Embedding Cache')
+			.setDesc('Loading...')
+			.addButton(button => button
+				.setButtonText('Clear Cache')
+				.onClick(async () => {
+					this.plugin.embeddingCache.clear();
+					await this.plugin.embeddingCache.save();
+					this.describeEmbeddingCache(cacheSetting);
+				}));
+		this.plugin.embeddingCache.ensureLoaded().then(() => this.describeEmbeddingCache(cacheSetting));
+
+		if (this.plugin.indexMismatches.length > 0) {
+			const changed = this.plugin.indexMismatches
+				.map(mismatch => `${mismatch.setting} (${mismatch.indexed} → ${mismatch.current})`)
+				.join(', ');
+			containerEl.createEl('p', {
+				text: `The database was built with different settings and needs to be rebuilt: ${changed}`,
+				cls: 'setting-item-description mod-warning'
+			});
+		}
+
+		this.displayEvaluation(containerEl);
+		this.displayLocalApi(containerEl);
+	}
+
+	describeEmbeddingCache(setting: Setting) {
+		const stats = this.plugin.embeddingCache.getStats(this.plugin.getEmbeddingModelKey());
+		const otherModels = stats.totalEntries - stats.entries;
+		setting.setDesc(`Vectors of chunk texts embedded before, reused instead of embedding identical text again. `
+			+ `${stats.entries} vectors for the current model${otherModels > 0 ? `, ${otherModels} for other models` : ''}. `
+			+ `This session: ${stats.hits} chunks reused, ${stats.misses} embedded.`);
+	}
+
+	displayEvaluation(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Evaluation' });
+		containerEl.createEl('p', {
+			text: 'Measure how changes to chunking and retrieval settings affect results. A golden set lists questions with the notes or passages that should be found; see the README for the format.',
+			cls: 'setting-item-description'
+		});
+
+		// Golden set
+		new Setting(containerEl)
+			.setName('Golden Set')
+			.setDesc('Path of the note or JSON file with the evaluation questions')
+			.addText(text => text
+				.setPlaceholder('Evaluation/Golden set.md')
+				.setValue(this.plugin.settings.evaluationGoldenSet)
+				.onChange(async (value) => {
+					this.plugin.settings.evaluationGoldenSet = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Full chain
+		new Setting(containerEl)
+			.setName('Evaluate Answers')
+			.setDesc('Also answer every question and check the citations and expected phrases. Costs one chat request per question.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.evaluationRunAnswers)
+				.onChange(async (value) => {
+					this.plugin.settings.evaluationRunAnswers = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Report folder
+		new Setting(containerEl)
+			.setName('Report Folder')
+			.setDesc('Folder for the report notes')
+			.addText(text => text
+				.setPlaceholder('RAG Evaluations')
+				.setValue(this.plugin.settings.evaluationReportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.evaluationReportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Run Evaluation')
+			.setDesc('Runs the golden set against the current index and opens the report')
+			.addButton(button => button
+				.setButtonText('Run Evaluation')
+				.onClick(async () => {
+					await this.plugin.evaluateRetrieval();
+				}));
+	}
+
+	displayLocalApi(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Local API' });
+		containerEl.createEl('p', {
+			text: 'Lets scripts and command-line tools on this computer search and ask questions over HTTP. Other plugins can use the plugin\'s api object directly. See the README for the endpoints.',
+			cls: 'setting-item-description'
+		});
+
+		const settings = this.plugin.settings;
+
+		// Server toggle
+		new Setting(containerEl)
+			.setName('Enable Local API')
+			.setDesc(this.describeApiServer())
+			.addToggle(toggle => toggle
+				.setValue(settings.apiServerEnabled)
+				.onChange(async (value) => {
+					settings.apiServerEnabled = value;
+					if (value && !settings.apiToken) settings.apiToken = generateApiToken();
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!settings.apiServerEnabled) return;
+
+		// Port, applied when leaving the field so typing doesn't restart the server on every key
+		new Setting(containerEl)
+			.setName('Port')
+			.setDesc('The server only accepts connections from this computer (127.0.0.1)')
+			.addText(text => {
+				text.setPlaceholder('27180')
+					.setValue(String(settings.apiServerPort));
+				text.inputEl.addEventListener('blur', async () => {
+					const port = parseInt(text.getValue(), 10);
+					if (isNaN(port) || port < 1024 || port > 65535) {
+						new Notice('The port must be a number between 1024 and 65535');
+						text.setValue(String(settings.apiServerPort));
+						return;
+					}
+					if (port === settings.apiServerPort) return;
+					settings.apiServerPort = port;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		// Token
+		new Setting(containerEl)
+			.setName('Token')
+			.setDesc('Send it as "Authorization: Bearer <token>" with every request')
+			.addText(text => {
+				text.setValue(settings.apiToken);
+				text.inputEl.readOnly = true;
+			})
+			.addButton(button => button
+				.setButtonText('Copy')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(settings.apiToken);
+					new Notice('Token copied');
+				}))
+			.addButton(button => button
+				.setButtonText('Regenerate')
+				.setWarning()
+				.onClick(async () => {
+					await this.plugin.regenerateApiToken();
+					this.display();
+				}));
+	}
+
+	describeApiServer(): string {
+		const server = this.plugin.apiServer;
+		if (this.plugin.apiServerError) return `Not running: ${this.plugin.apiServerError}`;
+		if (server.isRunning()) return `Listening on http://127.0.0.1:${server.port}`;
+		return 'Off';
+	}
+
+	displayPromptModes(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Answer Modes' });
+		containerEl.createEl('p', {
+			text: `Each mode is a prompt template with its own temperature and answer length. Templates can use ${PROMPT_VARIABLES.map(name => `{${name}}`).join(', ')}.`,
+			cls: 'setting-item-description'
+		});
+
+		// Default mode
+		new Setting(containerEl)
+			.setName('Default Answer Mode')
+			.setDesc('Mode selected when opening chat or search; it can be switched there')
+			.addDropdown(async dropdown => {
+				const modes = await this.plugin.getPromptModes();
+				modes.forEach(mode => dropdown.addOption(mode.id, mode.name));
+				dropdown
+					.setValue(this.plugin.settings.defaultPromptMode)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultPromptMode = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Template folder
+		new Setting(containerEl)
+			.setName('Prompt Template Folder')
+			.setDesc('Every note in this folder is added as a mode. The note body is the template; frontmatter can set name, temperature and max_tokens. Useful for sharing templates through the vault.')
+			.addText(text => text
+				.setPlaceholder('Templates/RAG')
+				.setValue(this.plugin.settings.promptTemplateFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.promptTemplateFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.promptModes.forEach((mode, index) => {
+			const expanded = this.expandedMode === mode.id;
+			new Setting(containerEl)
+				.setName(mode.name)
+				.setDesc(`Temperature ${mode.temperature}, up to ${mode.maxOutputTokens} tokens`)
+				.addButton(button => button
+					.setButtonText(expanded ? 'Close' : 'Edit')
+					.onClick(() => {
+						this.expandedMode = expanded ? null : mode.id;
+						this.display();
+					}))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setWarning()
+					.setDisabled(this.plugin.settings.promptModes.length <= 1)
+					.onClick(async () => {
+						this.plugin.settings.promptModes = this.plugin.settings.promptModes.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (expanded) this.displayPromptModeEditor(containerEl, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Mode')
+				.onClick(async () => {
+					const mode: PromptMode = { ...BUILT_IN_PROMPT_MODES[0], id: `custom-${Date.now().toString(36)}`, name: 'New mode' };
+					this.plugin.settings.promptModes = [...this.plugin.settings.promptModes, mode];
+					this.expandedMode = mode.id;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Restore Built-in Modes')
+				.onClick(async () => {
+					// Resets the built-in modes and keeps custom ones
+					const custom = this.plugin.settings.promptModes.filter(mode => !BUILT_IN_PROMPT_MODES.some(builtIn => builtIn.id === mode.id));
+					this.plugin.settings.promptModes = [...BUILT_IN_PROMPT_MODES, ...custom];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	displayPromptModeEditor(containerEl: HTMLElement, index: number) {
+		const editor = containerEl.createDiv('rag-mode-editor');
+		const mode = () => this.plugin.settings.promptModes[index];
+		const update = async (patch: Partial<PromptMode>) => {
+			this.plugin.settings.promptModes = this.plugin.settings.promptModes.map((item, i) => i === index ? { ...item, ...patch } : item);
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(editor)
+			.setName('Name')
+			.addText(text => text
+				.setValue(mode().name)
+				.onChange(async (value) => {
+					if (value.trim()) await update({ name: value.trim() });
+				}));
+
+		new Setting(editor)
+			.setName('Temperature')
+			.setDesc('Higher values give more varied answers')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.05)
+				.setValue(mode().temperature)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					await update({ temperature: value });
+				}));
+
+		new Setting(editor)
+			.setName('Max Answer Tokens')
+			.addText(text => text
+				.setValue(String(mode().maxOutputTokens))
+				.onChange(async (value) => {
+					const tokens = parseInt(value, 10);
+					if (!isNaN(tokens) && tokens > 0) await update({ maxOutputTokens: tokens });
+				}));
+
+		const templateSetting = new Setting(editor)
+			.setName('Template')
+			.setDesc('{context} and {input} are appended when the template does not use them');
+		templateSetting.settingEl.addClass('rag-mode-template');
+		templateSetting.addTextArea(text => {
+			text.inputEl.rows = 12;
+			text
+				.setValue(mode().template)
+				.onChange(async (value) => {
+					await update({ template: value });
+				});
+		});
+	}
+
+	/**
+	 * A list of values shown as removable chips, with a text field and
+	 * suggestions to add more.
+	 */
+	displayListSetting(
+		containerEl: HTMLElement,
+		key: 'includeFolders' | 'excludeFolders' | 'excludePatterns' | 'excludeTags',
+		name: string,
+		desc: string,
+		placeholder: string,
+		getSuggestions: () => string[]
+	) {
+		const setting = new Setting(containerEl).setName(name).setDesc(desc);
+		const chips = setting.descEl.createDiv({ cls: 'rag-list-setting-values' });
+		const listId = `rag-list-setting-${key}`;
+		const datalist = setting.controlEl.createEl('datalist', { attr: { id: listId } });
+		let input: HTMLInputElement;
+
+		const renderChips = () => {
+			chips.empty();
+			for (const value of this.plugin.settings[key]) {
+				const chip = chips.createSpan({ cls: 'rag-list-setting-value', text: value });
+				const remove = chip.createSpan({ cls: 'rag-list-setting-remove', text: '×', attr: { 'aria-label': `Remove ${value}` } });
+				remove.addEventListener('click', async () => {
+					this.plugin.settings[key] = this.plugin.settings[key].filter(item => item !== value);
+					await this.plugin.saveSettings();
+					renderChips();
+				});
+			}
+		};
+
+		const add = async () => {
+			const value = input.value.trim();
+			if (!value || this.plugin.settings[key].includes(value)) return;
+			this.plugin.settings[key] = [...this.plugin.settings[key], value];
+			input.value = '';
+			await this.plugin.saveSettings();
+			renderChips();
+		};
+
+		setting
+			.addText(text => {
+				input = text.inputEl;
+				text.setPlaceholder(placeholder);
+				input.setAttr('list', listId);
+				input.addEventListener('focus', () => fillDatalist(datalist, getSuggestions()));
+				input.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						add();
+					}
+				});
+			})
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(add));
+
+		renderChips();
+	}
+
+	displayGeminiSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Google Gemini' });
+
+		// API Key
+		new Setting(containerEl)
+			.setName('Gemini API Key')
+			.setDesc('Your Google AI Studio API key. Get one from https://makersuite.google.com/app/apikey')
+			.addText(text => text
+				.setPlaceholder('Enter your API key')
+				.setValue(this.plugin.settings.apiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.apiKey = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Embedding Model
+		new Setting(containerEl)
+			.setName('Embedding Model')
+			.setDesc('The Gemini model to use for generating embeddings')
+			.addDropdown(dropdown => dropdown
+				.addOption('text-embedding-004', 'text-embedding-004 (Recommended)')
+				.setValue(this.plugin.settings.embeddingModel)
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Generative Model
+		new Setting(containerEl)
+			.setName('Generative Model')
+			.setDesc('The Gemini model to use for generating responses')
+			.addDropdown(dropdown => dropdown
+				.addOption('gemini-1.5-flash', 'Gemini 1.5 Flash (Fast)')
+				.addOption('gemini-1.5-pro', 'Gemini 1.5 Pro (Better quality)')
+				.setValue(this.plugin.settings.generativeModel)
+				.onChange(async (value) => {
+					this.plugin.settings.generativeModel = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	displayOpenAISettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'OpenAI-compatible' });
+
+		new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('Any server implementing the OpenAI /chat/completions and /embeddings endpoints')
+			.addText(text => text
+				.setPlaceholder('https://api.openai.com/v1')
+				.setValue(this.plugin.settings.openaiBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API Key')
+			.setDesc('Sent as a Bearer token. Leave empty for servers without authentication.')
+			.addText(text => text
+				.setPlaceholder('Enter your API key')
+				.setValue(this.plugin.settings.openaiApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiApiKey = value;
+					await this.plugin.saveSettings();
+				}));
+
+		if (this.plugin.settings.chatProvider === 'openai') {
+			new Setting(containerEl)
+				.setName('Chat Model')
+				.setDesc('Model name used for generating responses')
+				.addText(text => text
+					.setPlaceholder('gpt-4o-mini')
+					.setValue(this.plugin.settings.openaiChatModel)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiChatModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		if (this.plugin.settings.embeddingProvider === 'openai') {
+			new Setting(containerEl)
+				.setName('Embedding Model')
+				.setDesc('Model name used for generating embeddings')
+				.addText(text => text
+					.setPlaceholder('text-embedding-3-small')
+					.setValue(this.plugin.settings.openaiEmbeddingModel)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiEmbeddingModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	displayOllamaSettings(containerEl: HTMLElement) {
+		containerEl.createEl('h3', { text: 'Ollama' });
+
+		new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('Address of your Ollama server')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434')
+				.setValue(this.plugin.settings.ollamaBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		if (this.plugin.settings.chatProvider === 'ollama') {
+			new Setting(containerEl)
+				.setName('Chat Model')
+				.setDesc('A model pulled into Ollama, e.g. llama3.1')
+				.addText(text => text
+					.setPlaceholder('llama3.1')
+					.setValue(this.plugin.settings.ollamaChatModel)
+					.onChange(async (value) => {
+						this.plugin.settings.ollamaChatModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		if (this.plugin.settings.embeddingProvider === 'ollama') {
+			new Setting(containerEl)
+				.setName('Embedding Model')
+				.setDesc('An embedding model pulled into Ollama, e.g. nomic-embed-text')
+				.addText(text => text
+					.setPlaceholder('nomic-embed-text')
+					.setValue(this.plugin.settings.ollamaEmbeddingModel)
+					.onChange(async (value) => {
+						this.plugin.settings.ollamaEmbeddingModel = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
 	}
-}
\ No newline at end of file
+}
@@ -1,23 +1,138 @@
+import type { ProviderId } from './providers/types';
+import type { RetrievalFilter } from './query-filter';
+import type { VectorQuantization } from './index-store';
+import { BUILT_IN_PROMPT_MODES, PromptMode } from './prompt-templates';
+import type { ContextOrigin, NoteContextOptions } from './note-context';
+import type { ImageIndexing } from './extractors/types';
+import type { AgentStep } from './agent/types';
+
 export const CHAT_VIEW_TYPE = "gemini-rag-chat-view";
+export const RELATED_NOTES_VIEW_TYPE = "gemini-rag-related-notes-view";
+
+// 'recursive' splits plain text by size, 'markdown' follows headings, code fences and tables
+export type ChunkingStrategy = 'recursive' | 'markdown';
 
 export interface GeminiRAGSettings {
+	chatProvider: ProviderId;
+	embeddingProvider: ProviderId;
 	apiKey: string;
 	embeddingModel: string;
 	generativeModel: string;
 	maxResults: number;
+	keywordWeight: number;
 	similarityThreshold: number;
+	useMMR: boolean;
+	mmrLambda: number;
+	maxChunksPerFile: number;
+	// Graph expansion over wiki-links, 0 hops disables it
+	linkExpansionHops: number;
+	linkExpansionWeight: number;
 	chunkSize: number;
 	chunkOverlap: number;
+	chunkingStrategy: ChunkingStrategy;
+	autoUpdateEmbeddings: boolean;
+	vectorQuantization: VectorQuantization;
+	// 0 disables the limit
+	embeddingRequestsPerMinute: number;
+	// Which notes are indexed, see index-rules.ts
+	includeFolders: string[];
+	excludeFolders: string[];
+	excludePatterns: string[];
+	excludeTags: string[];
+	excludeFrontmatterKey: string;
+	// Files other than notes, see extractors/
+	indexPdfs: boolean;
+	indexCanvases: boolean;
+	imageIndexing: ImageIndexing;
+	// Model of the chat provider used to describe images, the chat model when empty
+	visionModel: string;
+	historyTurns: number;
+	historyTokenBudget: number;
+	// Retrieved chunks and added notes share this budget, see note-context.ts
+	contextTokenBudget: number;
+	includeActiveNote: boolean;
+	includeLinkedNotes: boolean;
+	pinnedContext: string[];
+	chatExportFolder: string;
+	// Chat answers by calling vault tools, see agent/
+	agentMode: boolean;
+	agentMaxSteps: number;
+	// Answer modes editable in the settings, see prompt-templates.ts
+	promptModes: PromptMode[];
+	defaultPromptMode: string;
+	// Notes in this folder are loaded as additional answer modes
+	promptTemplateFolder: string;
+	// Note or JSON file with the questions of the retrieval evaluation, see evaluation/
+	evaluationGoldenSet: string;
+	evaluationRunAnswers: boolean;
+	evaluationReportFolder: string;
+	// Local HTTP API for scripts, see api-server.ts
+	apiServerEnabled: boolean;
+	apiServerPort: number;
+	apiToken: string;
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiChatModel: string;
+	openaiEmbeddingModel: string;
+	ollamaBaseUrl: string;
+	ollamaChatModel: string;
+	ollamaEmbeddingModel: string;
 }
 
 export const DEFAULT_SETTINGS: GeminiRAGSettings = {
+	chatProvider: 'gemini',
+	embeddingProvider: 'gemini',
 	apiKey: '',
 	embeddingModel: 'text-embedding-004',
 	generativeModel: 'gemini-1.5-flash-latest',
 	maxResults: 5,
+	keywordWeight: 0.3,
 	similarityThreshold: 0.7,
+	useMMR: false,
+	mmrLambda: 0.7,
+	maxChunksPerFile: 3,
+	linkExpansionHops: 0,
+	linkExpansionWeight: 0.5,
 	chunkSize: 1000,
-	chunkOverlap: 200
+	chunkOverlap: 200,
+	chunkingStrategy: 'recursive',
+	autoUpdateEmbeddings: true,
+	vectorQuantization: 'float32',
+	embeddingRequestsPerMinute: 100,
+	includeFolders: [],
+	excludeFolders: [],
+	excludePatterns: [],
+	excludeTags: [],
+	excludeFrontmatterKey: 'rag',
+	indexPdfs: true,
+	indexCanvases: true,
+	imageIndexing: 'off',
+	visionModel: '',
+	historyTurns: 4,
+	historyTokenBudget: 2000,
+	contextTokenBudget: 4000,
+	includeActiveNote: false,
+	includeLinkedNotes: false,
+	pinnedContext: [],
+	chatExportFolder: 'RAG Chats',
+	agentMode: false,
+	agentMaxSteps: 6,
+	promptModes: BUILT_IN_PROMPT_MODES,
+	defaultPromptMode: 'strict',
+	promptTemplateFolder: '',
+	evaluationGoldenSet: '',
+	evaluationRunAnswers: false,
+	evaluationReportFolder: 'RAG Evaluations',
+	apiServerEnabled: false,
+	apiServerPort: 27180,
+	apiToken: '',
+	openaiBaseUrl: 'https://api.openai.com/v1',
+	openaiApiKey: '',
+	openaiChatModel: 'gpt-4o-mini',
+	openaiEmbeddingModel: 'text-embedding-3-small',
+	ollamaBaseUrl: 'http://localhost:11434',
+	ollamaChatModel: 'llama3.1',
+	ollamaEmbeddingModel: 'nomic-embed-text'
 }
 
 export interface DocumentChunk {
@@ -26,6 +141,19 @@ export interface DocumentChunk {
 	fileName: string;
 	embedding?: number[];
 	similarity?: number;
+	// Position of the chunk in its note, used to open citations at the right place
+	startOffset?: number;
+	endOffset?: number;
+	startLine?: number;
+	endLine?: number;
+	headingPath?: string[];
+	// Where text extracted from a PDF or canvas was found
+	page?: number;
+	nodeId?: string;
+	// Unset for chunks found by the search
+	origin?: ContextOrigin;
+	// Set for chunks the search reached by following links from a result
+	linkedFrom?: { path: string; hops: number };
 }
 
 export interface ChatMessage {
@@ -33,8 +161,36 @@ export interface ChatMessage {
 	content: string;
 	timestamp: number;
 	sources?: DocumentChunk[];
+	// Tool calls of an agent mode answer
+	steps?: AgentStep[];
+}
+
+export interface QueryOptions {
+	// Previous chat messages, used to understand follow-up questions
+	history?: ChatMessage[];
+	// Restricts retrieval to matching chunks
+	filter?: RetrievalFilter;
+	// Searched instead of the question, e.g. the selected text when the question wraps it in instructions
+	retrievalQuery?: string;
+	// Answer mode id, the default mode from the settings when not given
+	mode?: string;
+	// Notes added to the retrieved context
+	context?: NoteContextOptions;
+	signal?: AbortSignal;
 }
 
+export interface RAGResult {
+	answer: string;
+	// The chunks that were given to the model as context, in retrieval order
+	sources: DocumentChunk[];
+}
+
+export type RAGStreamEvent =
+	| { type: 'sources'; sources: DocumentChunk[] }
+	| { type: 'token'; text: string }
+	// The index or the models can't be used; the message says why, e.g. "build embeddings first"
+	| { type: 'unavailable'; message: string };
+
 export interface EmbeddingData {
 	chunks: DocumentChunk[];
 	lastUpdated: number;
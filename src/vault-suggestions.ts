@@ -0,0 +1,25 @@
+import { App, TFolder, getAllTags } from 'obsidian';
+
+/** Folder paths of the vault with a trailing slash, as filters and folder rules expect them. */
+export function getFolderSuggestions(app: App): string[] {
+	return app.vault.getAllLoadedFiles()
+		.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+		.map(folder => `${folder.path}/`)
+		.sort();
+}
+
+/** Every tag used in a note, frontmatter tags included. */
+export function getTagSuggestions(app: App): string[] {
+	const tags = new Set<string>();
+	for (const file of app.vault.getMarkdownFiles()) {
+		const cache = app.metadataCache.getFileCache(file);
+		if (cache) getAllTags(cache)?.forEach(tag => tags.add(tag));
+	}
+	return Array.from(tags).sort();
+}
+
+/** Replaces the options of an input's datalist. */
+export function fillDatalist(datalist: HTMLDataListElement, values: string[]) {
+	datalist.empty();
+	values.forEach(value => datalist.createEl('option', { attr: { value } }));
+}
@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import type { DocumentChunk } from '../src/types';
+import { parseToolCall, runAgent } from '../src/agent/agent';
+import { createScriptedModel } from '../src/agent/scripted-model';
+import type { AgentTool } from '../src/agent/types';
+
+const deployment: DocumentChunk = { filePath: 'Ops/Deployment.md', fileName: 'Deployment.md', content: 'The API is released with a blue-green deployment.' };
+
+function toolCall(name: string, args: Record<string, unknown> = {}): string {
+	return `\`\`\`tool\n${JSON.stringify({ name, args })}\n\`\`\``;
+}
+
+function createTools() {
+	const created: string[] = [];
+	const tools: AgentTool[] = [
+		{
+			name: 'semantic_search',
+			description: 'Finds passages about a topic.',
+			parameters: { query: 'what to look for' },
+			async run() {
+				return { sources: [deployment] };
+			}
+		},
+		{
+			name: 'create_note',
+			description: 'Creates a new note.',
+			parameters: { path: 'path of the new note' },
+			describeAction: (args) => `Create "${args.path}"?`,
+			async run(args) {
+				created.push(String(args.path));
+				return { text: `Created ${args.path}` };
+			}
+		}
+	];
+	return { tools, created };
+}
+
+test('parseToolCall reads a tool block and treats other replies as answers', () => {
+	assert.deepEqual(parseToolCall(`Searching first.\n${toolCall('semantic_search', { query: 'deploy' })}`), {
+		name: 'semantic_search',
+		args: { query: 'deploy' },
+		thought: 'Searching first.'
+	});
+	assert.equal(parseToolCall('The API uses blue-green deployments [1].'), null);
+	assert.equal(parseToolCall('```json\n{"replicas": 3}\n```'), null);
+	assert.throws(() => parseToolCall('```tool\n{"name": \n```'), /not valid JSON/);
+});
+
+test('tool results are numbered and sent back until the model answers', async () => {
+	const { tools } = createTools();
+	const model = createScriptedModel([toolCall('semantic_search', { query: 'deploy' }), 'Blue-green [1].']);
+
+	const result = await runAgent(model, tools, 'How is the API released?', { maxSteps: 3, date: '2026-01-01' });
+
+	assert.equal(result.answer, 'Blue-green [1].');
+	assert.equal(result.stopped, false);
+	assert.deepEqual(result.sources, [deployment]);
+	assert.deepEqual(result.steps.map(step => [step.tool, step.status]), [['semantic_search', 'done']]);
+	const lastMessage = model.calls[1][model.calls[1].length - 1];
+	assert.match(String(lastMessage.content), /^Result of semantic_search:\n\[1\] Ops\/Deployment\.md/);
+});
+
+test('the model has to answer once max steps are used', async () => {
+	const { tools } = createTools();
+	const model = createScriptedModel([
+		toolCall('semantic_search', { query: 'a' }),
+		toolCall('semantic_search', { query: 'b' }),
+		toolCall('semantic_search', { query: 'c' }),
+		'Answer from what I found.'
+	]);
+
+	const result = await runAgent(model, tools, 'question', { maxSteps: 2 });
+
+	assert.equal(result.answer, 'Answer from what I found.');
+	assert.equal(result.steps.length, 2);
+	assert.equal(model.calls.length, 4);
+	assert.match(String(model.calls[3][model.calls[3].length - 1].content), /used all tool calls/);
+});
+
+test('declined and unconfirmed changes are not run', async () => {
+	const { tools, created } = createTools();
+	const asked: string[] = [];
+	const declined = await runAgent(createScriptedModel([toolCall('create_note', { path: 'Summary.md' }), 'Skipped.']), tools, 'question', {
+		maxSteps: 3,
+		confirm: async (_tool, description) => {
+			asked.push(description);
+			return false;
+		}
+	});
+	assert.deepEqual(asked, ['Create "Summary.md"?']);
+	assert.equal(declined.steps[0].status, 'declined');
+
+	// Without anyone to ask, changes are declined as well
+	const unconfirmed = await runAgent(createScriptedModel([toolCall('create_note', { path: 'Summary.md' }), 'Skipped.']), tools, 'question', { maxSteps: 3 });
+	assert.equal(unconfirmed.steps[0].status, 'declined');
+	assert.deepEqual(created, []);
+
+	const approved = await runAgent(createScriptedModel([toolCall('create_note', { path: 'Summary.md' }), 'Done.']), tools, 'question', {
+		maxSteps: 3,
+		confirm: async () => true
+	});
+	assert.equal(approved.steps[0].status, 'done');
+	assert.deepEqual(created, ['Summary.md']);
+});
+
+test('unknown tools and invalid tool blocks fail the step and the loop continues', async () => {
+	const { tools } = createTools();
+	const model = createScriptedModel([toolCall('delete_vault'), '```tool\n{"name": "semantic_search", \n```', 'Gave up.']);
+
+	const result = await runAgent(model, tools, 'question', { maxSteps: 5 });
+
+	assert.equal(result.answer, 'Gave up.');
+	assert.deepEqual(result.steps.map(step => [step.tool, step.status]), [['delete_vault', 'failed'], ['invalid_tool_call', 'failed']]);
+	assert.match(result.steps[0].output, /Unknown tool "delete_vault"\. Available tools: semantic_search, create_note/);
+	assert.match(result.steps[1].output, /not valid JSON/);
+});
+
+test('stopping returns the steps so far', async () => {
+	const { tools } = createTools();
+	const controller = new AbortController();
+	const model = createScriptedModel([toolCall('semantic_search', { query: 'a' }), () => {
+		controller.abort();
+		throw new Error('aborted');
+	}]);
+
+	const result = await runAgent(model, tools, 'question', { maxSteps: 3, signal: controller.signal });
+
+	assert.equal(result.stopped, true);
+	assert.equal(result.steps.length, 1);
+});
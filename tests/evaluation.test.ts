@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import type { DocumentChunk } from '../src/types';
+import { DEFAULT_SETTINGS } from '../src/types';
+import { runEvaluation, scoreRetrieval } from '../src/evaluation/evaluator';
+import { GoldenSet, parseGoldenSetNote } from '../src/evaluation/golden-set';
+import { createHeadlessSearch } from '../src/evaluation/headless';
+
+function chunk(filePath: string, content = ''): DocumentChunk {
+	return { filePath, fileName: filePath.replace(/^.*\//, ''), content };
+}
+
+const notes = [
+	{ path: 'Ops/Deployment.md', content: '# Deployment\n\nThe API is released with a blue-green deployment behind the load balancer.' },
+	{ path: 'Ops/Backups.md', content: '# Backups\n\nDatabase snapshots are copied to cold storage every night at midnight.' },
+	{ path: 'Team/Onboarding.md', content: '# Onboarding\n\nNew engineers pair with a mentor during their first two weeks.' }
+];
+
+test('scoreRetrieval counts expected sources in the top k and the rank of the first hit', () => {
+	const question = { question: 'q', sources: ['Deployment', 'Ops/Backups.md'], passages: [], answerContains: [] };
+	const retrieved = [chunk('Team/Onboarding.md'), chunk('Ops/Deployment.md'), chunk('Ops/Backups.md')];
+
+	const atTwo = scoreRetrieval(question, retrieved, 2);
+	assert.equal(atTwo.recall, 0.5);
+	assert.equal(atTwo.reciprocalRank, 0.5);
+	assert.deepEqual(atTwo.relevantRanks, [2]);
+	assert.deepEqual(atTwo.missing, ['Ops/Backups.md']);
+
+	assert.equal(scoreRetrieval(question, retrieved, 3).recall, 1);
+});
+
+test('runEvaluation averages recall@k and MRR over the questions with expectations', async () => {
+	const set: GoldenSet = {
+		name: 'fixed',
+		questions: [
+			{ question: 'first', sources: ['A'], passages: [], answerContains: [] },
+			{ question: 'second', sources: ['B'], passages: [], answerContains: [] },
+			{ question: 'third', sources: ['C'], passages: [], answerContains: [] },
+			// Answer-only questions don't count towards retrieval metrics
+			{ question: 'fourth', sources: [], passages: [], answerContains: ['x'] }
+		]
+	};
+	const results: Record<string, DocumentChunk[]> = {
+		first: [chunk('A.md'), chunk('B.md')],
+		second: [chunk('A.md'), chunk('B.md')],
+		third: [chunk('A.md'), chunk('B.md')],
+		fourth: []
+	};
+
+	const report = await runEvaluation(set, { search: async (question) => results[question] }, 2);
+	assert.equal(report.recallAtK, 2 / 3);
+	assert.equal(report.mrr, (1 + 0.5 + 0) / 3);
+	assert.equal(report.hitRate, 2 / 3);
+	assert.equal(report.groundedRate, null);
+});
+
+test('a golden set runs against the headless search with the deterministic embedder', async () => {
+	const set = parseGoldenSetNote('Golden', [
+		'## How is the API released?',
+		'- source: [[Deployment]]',
+		'- passage: blue-green deployment',
+		'',
+		'## When are database snapshots copied?',
+		'- source: [[Backups]]'
+	].join('\n'));
+	assert.equal(set.questions.length, 2);
+
+	const search = await createHeadlessSearch(notes, { ...DEFAULT_SETTINGS, chunkingStrategy: 'markdown' });
+	const report = await runEvaluation(set, { search }, 3);
+
+	assert.deepEqual(report.results.map(result => result.error), [undefined, undefined]);
+	assert.equal(report.recallAtK, 1);
+	assert.equal(report.mrr, 1);
+
+	// The embedder is deterministic, so a second run scores the same
+	const again = await runEvaluation(set, { search }, 3);
+	assert.deepEqual(again.results.map(result => result.retrieved.map(chunk => chunk.filePath)),
+		report.results.map(result => result.retrieved.map(chunk => chunk.filePath)));
+});
@@ -0,0 +1,5 @@
+// Obsidian only exists inside the app. Tested modules that import it get
+// these stand-ins, which fail loudly if a test actually reaches them.
+export function parseYaml(): never {
+	throw new Error('parseYaml is not available in tests');
+}